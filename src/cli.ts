@@ -10,19 +10,30 @@ import { importCommand } from "./commands/import.js";
 import { listCommand } from "./commands/list.js";
 import { readyCommand } from "./commands/ready.js";
 import { blockedCommand } from "./commands/blocked.js";
+import { epicCommand } from "./commands/epic.js";
+import { planCommand } from "./commands/plan.js";
+import { cycleCommand } from "./commands/cycle.js";
+import { milestoneCommand } from "./commands/milestone.js";
 import { showCommand } from "./commands/show.js";
+import { searchCommand } from "./commands/search.js";
 import { createCommand } from "./commands/create.js";
 import { updateCommand } from "./commands/update.js";
 import { closeCommand } from "./commands/close.js";
+import { reopenCommand } from "./commands/reopen.js";
 import { deleteCommand } from "./commands/delete.js";
 import { depCommand } from "./commands/dep.js";
+import { commentCommand } from "./commands/comment.js";
 import { syncCommand } from "./commands/sync.js";
+import { outboxCommand } from "./commands/outbox.js";
+import { serveCommand } from "./commands/serve.js";
 import { onboardCommand } from "./commands/onboard.js";
 import { migrateCommand } from "./commands/migrate.js";
 import { exportCommand } from "./commands/export.js";
 import { verifyConnection } from "./utils/linear.js";
 import { closeDatabase } from "./utils/database.js";
-import { exportToJsonl } from "./utils/jsonl.js";
+import { exportToJsonl, importJsonlChanges, describeJsonlImport } from "./utils/jsonl.js";
+import { takePendingJsonlExport } from "./utils/jsonl-scheduler.js";
+import { isJsonlSyncEnabled } from "./utils/config.js";
 import { processOutbox } from "./utils/background-sync-worker.js";
 
 const program = new Command();
@@ -65,15 +76,24 @@ if (process.argv.includes("--worker")) {
   program.addCommand(listCommand);
   program.addCommand(readyCommand);
   program.addCommand(blockedCommand);
+  program.addCommand(epicCommand);
+  program.addCommand(planCommand);
+  program.addCommand(cycleCommand);
+  program.addCommand(milestoneCommand);
   program.addCommand(showCommand);
+  program.addCommand(searchCommand);
   program.addCommand(createCommand);
   program.addCommand(updateCommand);
   program.addCommand(closeCommand);
+  program.addCommand(reopenCommand);
   program.addCommand(deleteCommand);
   program.addCommand(depCommand);
+  program.addCommand(commentCommand);
 
   // Sync & interop
   program.addCommand(syncCommand);
+  program.addCommand(outboxCommand);
+  program.addCommand(serveCommand);
   program.addCommand(importCommand);
   program.addCommand(exportCommand);
   program.addCommand(migrateCommand);
@@ -98,6 +118,25 @@ if (process.argv.includes("--worker")) {
       }
     });
 
+  // Pick up issues.jsonl edits (e.g. from git pull) before any command reads the cache
+  program.hook("preAction", () => {
+    try {
+      const result = importJsonlChanges();
+      if (result) {
+        describeJsonlImport(result).forEach((line) => console.error(line));
+      }
+    } catch (error) {
+      console.error("Warning:", error instanceof Error ? error.message : error);
+    }
+  });
+
+  // With jsonl_sync, write issues.jsonl before exiting so it can be committed right away
+  program.hook("postAction", () => {
+    if (isJsonlSyncEnabled() && takePendingJsonlExport()) {
+      exportToJsonl();
+    }
+  });
+
   // Handle cleanup on exit
   process.on("exit", () => {
     closeDatabase();
@@ -11,6 +11,7 @@ import {
   getDatabase,
 } from "../utils/database.js";
 import { output } from "../utils/output.js";
+import { filterIssues } from "../utils/issue-filters.js";
 import { isLocalOnly } from "../utils/config.js";
 
 /**
@@ -36,7 +37,7 @@ export const blockedCommand = new Command("blocked")
   .description("List blocked issues (waiting on blockers)")
   .option("-j, --json", "Output as JSON")
   .option("--sync", "Force sync before listing")
-  .option("--team <team>", "Team key (overrides config)")
+  .option("--team <teams>", "Only issues of these teams (comma-separated keys)")
   .action(async (options) => {
     try {
       // Ensure cache is fresh (skip in local-only mode)
@@ -54,7 +55,10 @@ export const blockedCommand = new Command("blocked")
 
       // Get the actual issues
       const allIssues = getCachedIssues();
-      const blockedIssues = allIssues.filter((i) => blockedIds.has(i.id) && i.status !== "closed");
+      const blockedIssues = filterIssues(
+        allIssues.filter((i) => blockedIds.has(i.id) && i.status !== "closed"),
+        { team: options.team }
+      );
 
       if (blockedIssues.length === 0) {
         output("No blocked issues.");
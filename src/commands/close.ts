@@ -1,89 +1,224 @@
 /**
- * lb close - Close an issue
+ * lb close - Close one or more issues
  */
 
 import { Command } from "commander";
-import { queueOutboxItem, getCachedIssue, cacheIssue } from "../utils/database.js";
-import { closeIssue, getTeamId, fetchIssue } from "../utils/linear.js";
-import { formatIssueJson, formatIssueHuman, output, outputError } from "../utils/output.js";
+import { queueOutboxItem, getCachedIssue, cacheIssue, cacheDependency } from "../utils/database.js";
+import { closeIssue, getTeamId, getIssueTeamId, fetchIssue } from "../utils/linear.js";
+import {
+  formatIssueJson,
+  formatIssuesJson,
+  formatIssueHuman,
+  formatBulkSummary,
+  output,
+  outputError,
+} from "../utils/output.js";
 import { ensureOutboxProcessed } from "../utils/spawn-worker.js";
 import { isLocalOnly } from "../utils/config.js";
+import { combineFilters, resolveTargetIds } from "../utils/issue-filters.js";
+import { parseResolution } from "../types.js";
+import type { Issue, Resolution } from "../types.js";
+
+/**
+ * Work out the resolution from --resolution, --wont-fix and --of, exiting on conflicts
+ */
+function resolveResolution(options: {
+  resolution?: string;
+  wontFix?: boolean;
+  of?: string;
+}): Resolution {
+  let resolution: Resolution = options.of ? "duplicate" : "done";
+
+  if (options.resolution) {
+    const parsed = parseResolution(options.resolution);
+    if (parsed.error || !parsed.resolution) {
+      outputError(parsed.error || "Invalid resolution");
+      process.exit(1);
+    }
+    resolution = parsed.resolution;
+  }
+  if (options.wontFix) {
+    if (options.resolution && resolution !== "wont_fix") {
+      outputError(`--wont-fix conflicts with --resolution ${options.resolution}`);
+      process.exit(1);
+    }
+    resolution = "wont_fix";
+  }
+
+  if (resolution === "duplicate" && !options.of) {
+    outputError("Closing as duplicate needs the original issue: --of <id>");
+    process.exit(1);
+  }
+  if (resolution !== "duplicate" && options.of) {
+    outputError("--of only applies when closing as duplicate");
+    process.exit(1);
+  }
+  return resolution;
+}
+
+/**
+ * Cached issue as it looks once closed
+ */
+function closedCopy(issue: Issue, resolution: Resolution, duplicateOf?: string): Issue {
+  const now = new Date().toISOString();
+  return {
+    ...issue,
+    status: "closed",
+    closed_at: now,
+    updated_at: now,
+    resolution,
+    duplicate_of: duplicateOf,
+  };
+}
+
+/**
+ * Collect repeatable option values into an array
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return previous.concat([value]);
+}
+
+interface CloseContext {
+  reason?: string;
+  resolution: Resolution;
+  duplicateOf?: string;
+  teamId?: string;
+}
+
+/**
+ * Close one issue in the cache (local-only), in Linear (--sync) or via the outbox.
+ * Returns the closed issue, or null if a queued issue isn't known locally.
+ */
+async function closeOne(id: string, ctx: CloseContext): Promise<Issue | null> {
+  // Local-only mode: update cache directly
+  if (isLocalOnly()) {
+    const issue = getCachedIssue(id);
+    if (!issue) {
+      throw new Error(`Issue not found: ${id}`);
+    }
+
+    const closed = closedCopy(issue, ctx.resolution, ctx.duplicateOf);
+    cacheIssue(closed);
+    if (ctx.duplicateOf) {
+      cacheDependency({
+        issue_id: id,
+        depends_on_id: ctx.duplicateOf,
+        type: "related",
+        created_at: closed.updated_at,
+        created_by: "local",
+      });
+    }
+    return closed;
+  }
+
+  if (ctx.teamId) {
+    // Sync mode: close directly in Linear
+    const teamId = await getIssueTeamId(id, ctx.teamId);
+    return closeIssue(id, teamId, ctx.reason, ctx.resolution, ctx.duplicateOf);
+  }
+
+  // Queue mode: add to outbox (the caller spawns the background worker)
+  queueOutboxItem("close", {
+    issueId: id,
+    reason: ctx.reason,
+    resolution: ctx.resolution,
+    duplicateOf: ctx.duplicateOf,
+  });
+
+  // Close the cached issue so it shows before the worker syncs it
+  let issue = getCachedIssue(id);
+  if (!issue) {
+    issue = await fetchIssue(id);
+  }
+  if (!issue) return null;
+  const closed = closedCopy(issue, ctx.resolution, ctx.duplicateOf);
+  cacheIssue(closed);
+  return closed;
+}
 
 export const closeCommand = new Command("close")
-  .description("Close an issue")
-  .argument("<id>", "Issue ID")
+  .description("Close issues by ID or by filter")
+  .argument("[ids...]", "Issue IDs (or select issues with filters)")
   .option("-r, --reason <reason>", "Close reason (added as comment)")
+  .option("--resolution <resolution>", "How it was resolved: done (default), wont-fix, duplicate")
+  .option("--wont-fix", "Close as won't fix (canceled in Linear)")
+  .option("--of <id>", "Original issue when closing as duplicate")
+  .option("-s, --status <status>", "Close issues with this status")
+  .option("-p, --priority <priority>", "Close issues with this priority")
+  .option("-t, --type <type>", "Close issues of this type")
+  .option("-l, --label <name>", "Close issues with this label (repeatable)", collect)
+  .option("--parent <id>", "Close subtasks of ID")
+  .option("--cycle <cycle>", "Close issues in this cycle: current, next, or a cycle number")
+  .option("--milestone <name>", "Close issues in this milestone")
+  .option("--team <teams>", "Close issues of these teams (comma-separated keys)")
+  .option("-w, --where <filter>", "Filter as key=value, e.g. status=open (repeatable)", collect)
+  .option("--dry-run", "Show what would be closed without closing anything")
   .option("-j, --json", "Output as JSON")
   .option("--sync", "Sync immediately (block on network)")
-  .option("--team <team>", "Team key (overrides config)")
-  .action(async (id: string, options) => {
+  .action(async (ids: string[], options) => {
     try {
-      // Local-only mode: update cache directly
-      if (isLocalOnly()) {
-        const issue = getCachedIssue(id);
-        if (!issue) {
-          outputError(`Issue not found: ${id}`);
-          process.exit(1);
-        }
+      const resolution = resolveResolution(options);
+      const duplicateOf: string | undefined = options.of;
+      const localOnly = isLocalOnly();
 
-        const now = new Date().toISOString();
-        const closed = {
-          ...issue,
-          status: "closed" as const,
-          closed_at: now,
-          updated_at: now,
-        };
-        cacheIssue(closed);
+      if (localOnly && duplicateOf && !getCachedIssue(duplicateOf)) {
+        outputError(`Issue not found: ${duplicateOf}`);
+        process.exit(1);
+      }
+
+      let targets = await resolveTargetIds(
+        ids,
+        combineFilters(options, options.where),
+        options.team
+      );
+      const ctx: CloseContext = { reason: options.reason, resolution, duplicateOf };
 
+      // Several issues: skip the ones already closed
+      if (ids.length !== 1) {
+        targets = targets.filter((id) => getCachedIssue(id)?.status !== "closed");
+      }
+
+      if (options.dryRun) {
+        const preview = targets
+          .map((id) => getCachedIssue(id))
+          .filter((i): i is Issue => !!i)
+          .map((i) => closedCopy(i, resolution, duplicateOf));
         if (options.json) {
-          output(formatIssueJson(closed));
+          output(formatIssuesJson(preview));
         } else {
-          output(formatIssueHuman(closed));
+          output(formatBulkSummary("close", preview, true));
         }
         return;
       }
 
-      if (options.sync) {
-        // Sync mode: close directly in Linear
-        const teamId = await getTeamId(options.team);
-        const issue = await closeIssue(id, teamId, options.reason);
-
-        if (options.json) {
-          output(formatIssueJson(issue));
-        } else {
-          output(formatIssueHuman(issue));
-        }
-      } else {
-        // Queue mode: add to outbox and spawn background worker
-        queueOutboxItem("close", {
-          issueId: id,
-          reason: options.reason,
-        });
+      if (options.sync && !localOnly && targets.length > 0) {
+        ctx.teamId = await getTeamId();
+      }
 
+      // Each issue is closed (or queued) separately
+      const closed: Issue[] = [];
+      for (const id of targets) {
+        const issue = await closeOne(id, ctx);
+        if (issue) closed.push(issue);
+      }
+      if (!localOnly && !options.sync && targets.length > 0) {
         // Ensure worker processes the outbox
         ensureOutboxProcessed();
+      }
 
-        // Return cached issue with status updated
-        let issue = getCachedIssue(id);
-        if (!issue) {
-          issue = await fetchIssue(id);
-        }
-
-        if (issue) {
-          const closed = {
-            ...issue,
-            status: "closed" as const,
-            closed_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          };
-          if (options.json) {
-            output(formatIssueJson(closed));
-          } else {
-            output(formatIssueHuman(closed));
-          }
+      // A single explicit ID keeps the plain single-issue output
+      if (ids.length === 1) {
+        if (closed.length === 0) {
+          output(`Closed: ${ids[0]}`);
+        } else if (options.json) {
+          output(formatIssueJson(closed[0]));
         } else {
-          output(`Closed: ${id}`);
+          output(formatIssueHuman(closed[0]));
         }
+      } else if (options.json) {
+        output(formatIssuesJson(closed));
+      } else {
+        output(formatBulkSummary("close", closed, false));
       }
     } catch (error) {
       console.error("Error:", error instanceof Error ? error.message : error);
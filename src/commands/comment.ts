@@ -0,0 +1,178 @@
+/**
+ * lb comment - Add, list and edit issue comments
+ */
+
+import { Command } from "commander";
+import { addComment, updateComment, fetchComments } from "../utils/linear.js";
+import {
+  getCachedIssue,
+  getCachedComments,
+  getCachedComment,
+  getCachedViewer,
+  cacheComment,
+  generateLocalCommentId,
+  isLocalCommentId,
+  getPendingOutboxItems,
+  updateOutboxItemPayload,
+} from "../utils/database.js";
+import { formatCommentHuman, output, outputError } from "../utils/output.js";
+import { queueOperation } from "../utils/spawn-worker.js";
+import { isLocalOnly } from "../utils/config.js";
+import type { Comment } from "../types.js";
+
+/**
+ * Print comments for human or JSON output
+ */
+function printComments(comments: Comment[], json: boolean): void {
+  if (json) {
+    output(JSON.stringify(comments, null, 2));
+    return;
+  }
+  output(comments.map(formatCommentHuman).join("\n\n"));
+}
+
+// Main comment command
+export const commentCommand = new Command("comment").description("Add, list and edit comments");
+
+// lb comment add
+const addCommand = new Command("add")
+  .description("Add a comment to an issue")
+  .argument("<issue>", "Issue ID")
+  .argument("<body>", "Comment text")
+  .option("-j, --json", "Output as JSON")
+  .option("--sync", "Sync immediately (block on network)")
+  .action(async (issueId: string, body: string, options) => {
+    try {
+      const localOnly = isLocalOnly();
+
+      if (localOnly && !getCachedIssue(issueId)) {
+        outputError(`Issue not found: ${issueId}`);
+        process.exit(1);
+      }
+
+      let comment: Comment;
+
+      if (!localOnly && options.sync) {
+        comment = await addComment(issueId, body);
+      } else {
+        // Cache a placeholder so the comment shows up immediately
+        const now = new Date().toISOString();
+        comment = {
+          id: generateLocalCommentId(),
+          issue_id: issueId,
+          body,
+          created_at: now,
+          updated_at: now,
+        };
+        const viewer = localOnly ? null : getCachedViewer();
+        if (viewer) {
+          comment.author = viewer.email;
+        }
+        cacheComment(comment);
+
+        if (!localOnly) {
+          queueOperation("create_comment", { issueId, body, localId: comment.id });
+        }
+      }
+
+      if (options.json) {
+        printComments([comment], true);
+      } else {
+        output(`Commented on ${issueId}: ${comment.id}`);
+      }
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// lb comment list
+const listCommand = new Command("list")
+  .description("List comments on an issue")
+  .argument("<issue>", "Issue ID")
+  .option("-j, --json", "Output as JSON")
+  .option("--sync", "Fetch latest comments from Linear first")
+  .action(async (issueId: string, options) => {
+    try {
+      if (options.sync && !isLocalOnly()) {
+        await fetchComments(issueId);
+      }
+
+      const comments = getCachedComments(issueId);
+
+      if (!options.json && comments.length === 0) {
+        output(`No comments on ${issueId}.`);
+        return;
+      }
+
+      printComments(comments, options.json);
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// lb comment edit
+const editCommand = new Command("edit")
+  .description("Edit a comment")
+  .argument("<comment-id>", "Comment ID (from lb comment list)")
+  .argument("<body>", "New comment text")
+  .option("-j, --json", "Output as JSON")
+  .option("--sync", "Sync immediately (block on network)")
+  .action(async (commentId: string, body: string, options) => {
+    try {
+      const localOnly = isLocalOnly();
+      const cached = getCachedComment(commentId);
+
+      if (!cached && (localOnly || isLocalCommentId(commentId))) {
+        outputError(`Comment not found: ${commentId}`);
+        process.exit(1);
+      }
+
+      // A queued edit of an uncached comment doesn't know its issue, so leaves issue_id out
+      let comment: Comment | Omit<Comment, "issue_id">;
+      const now = new Date().toISOString();
+
+      if (isLocalCommentId(commentId)) {
+        // Not in Linear yet - rewrite the queued create instead of queueing an update
+        const edited = { ...cached!, body, updated_at: now };
+        cacheComment(edited);
+        comment = edited;
+
+        const pending = getPendingOutboxItems().find(
+          (item) => item.operation === "create_comment" && item.payload.localId === commentId
+        );
+        if (pending) {
+          updateOutboxItemPayload(pending.id, { ...pending.payload, body });
+        }
+      } else if (localOnly) {
+        const edited = { ...cached!, body, updated_at: now };
+        cacheComment(edited);
+        comment = edited;
+      } else if (options.sync) {
+        comment = await updateComment(commentId, body);
+      } else {
+        if (cached) {
+          const edited = { ...cached, body, updated_at: now };
+          cacheComment(edited);
+          comment = edited;
+        } else {
+          comment = { id: commentId, body, created_at: now, updated_at: now };
+        }
+        queueOperation("update_comment", { commentId, body });
+      }
+
+      if (options.json) {
+        output(JSON.stringify([comment], null, 2));
+      } else {
+        output(`Edited: ${commentId}`);
+      }
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+commentCommand.addCommand(addCommand);
+commentCommand.addCommand(listCommand);
+commentCommand.addCommand(editCommand);
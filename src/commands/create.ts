@@ -6,6 +6,7 @@ import { Command } from "commander";
 import {
   queueOutboxItem,
   generateLocalId,
+  generateTempId,
   cacheIssue,
   cacheDependency,
 } from "../utils/database.js";
@@ -19,8 +20,13 @@ import {
 import { formatIssueJson, formatIssueHuman, output } from "../utils/output.js";
 import { ensureOutboxProcessed } from "../utils/spawn-worker.js";
 import type { Issue, IssueType } from "../types.js";
-import { parsePriority, VALID_ISSUE_TYPES } from "../types.js";
-import { useTypes, isLocalOnly } from "../utils/config.js";
+import { parseEstimate, parsePriority, VALID_ISSUE_TYPES } from "../types.js";
+import { useTypes, isLocalOnly, getTeamKey, parseTeamKeys } from "../utils/config.js";
+import { findDuplicateCandidates } from "../utils/duplicates.js";
+import { parseDueDate } from "../utils/due-dates.js";
+import { getTeamCycles, resolveCycle } from "../utils/cycles.js";
+import { resolveMilestone } from "../utils/milestones.js";
+import { assertNoDependencyCycle, dependencyEdges } from "../utils/dependency-graph.js";
 
 const VALID_DEP_TYPES = ["blocks", "related", "discovered-from"];
 
@@ -55,6 +61,51 @@ function parseDeps(deps: string): Array<{ type: string; targetId: string }> {
   });
 }
 
+/**
+ * Cache an issue that only exists locally (local-only mode or queued for Linear),
+ * along with its parent and deps, so it shows up in list/show right away
+ */
+function cacheLocalIssue(
+  issue: Issue,
+  parentId: string | undefined,
+  deps: Array<{ type: string; targetId: string }>
+): void {
+  cacheIssue(issue);
+
+  // Handle parent relationship
+  if (parentId) {
+    cacheDependency({
+      issue_id: issue.id,
+      depends_on_id: parentId,
+      type: "parent-child",
+      created_at: issue.created_at,
+      created_by: "local",
+    });
+  }
+
+  // Handle deps
+  for (const dep of deps) {
+    if (dep.type === "blocked-by") {
+      cacheDependency({
+        issue_id: dep.targetId,
+        depends_on_id: issue.id,
+        type: "blocks",
+        created_at: issue.created_at,
+        created_by: "local",
+      });
+    } else {
+      const depType = dep.type === "blocks" ? "blocks" : "related";
+      cacheDependency({
+        issue_id: issue.id,
+        depends_on_id: dep.targetId,
+        type: depType as "blocks" | "related",
+        created_at: issue.created_at,
+        created_by: "local",
+      });
+    }
+  }
+}
+
 /**
  * Collect repeatable option values into an array
  */
@@ -68,16 +119,22 @@ export const createCommand = new Command("create")
   .option("-d, --description <desc>", "Issue description")
   .option("-t, --type <type>", "Type: bug, feature, task, epic, chore (requires use_types config)")
   .option("-p, --priority <priority>", "Priority: urgent, high, medium, low, backlog (or 0-4)", "2")
+  .option("-e, --estimate <points>", "Estimate in story points")
+  .option("--due <date>", "Due date: YYYY-MM-DD, today, tomorrow, friday, +3d, +2w")
+  .option("--cycle <cycle>", "Add to cycle: current, next, or a cycle number")
+  .option("--milestone <name>", "Add to a repo project milestone")
   .option("--parent <id>", "Parent issue ID (makes this a subtask)")
   .option("--blocks <id>", "This issue blocks ID (repeatable)", collect)
   .option("--blocked-by <id>", "This issue is blocked by ID (repeatable)", collect)
   .option("--related <id>", "Related issue ID (repeatable)", collect)
   .option("--discovered-from <id>", "Found while working on ID (repeatable)", collect)
+  .option("-l, --label <name>", "Add label (repeatable)", collect)
   .option("--assign <email>", "Assign to user (email or 'me')")
   .option("--unassign", "Leave unassigned (skip auto-assign)")
+  .option("--no-duplicates", "Refuse to create if a likely duplicate open issue exists")
   .option("-j, --json", "Output as JSON")
   .option("--sync", "Sync immediately (block on network)")
-  .option("--team <team>", "Team key (overrides config)")
+  .option("--team <team>", "Team to create the issue in (default: the repo's team_key)")
   .action(async (title: string, options) => {
     try {
       const { priority, error: priorityError } = parsePriority(options.priority);
@@ -86,6 +143,44 @@ export const createCommand = new Command("create")
         process.exit(1);
       }
 
+      let estimate: number | undefined;
+      if (options.estimate !== undefined) {
+        const parsed = parseEstimate(options.estimate);
+        if (parsed.error) {
+          console.error(parsed.error);
+          process.exit(1);
+        }
+        estimate = parsed.estimate;
+      }
+
+      let dueDate: string | undefined;
+      if (options.due !== undefined) {
+        const parsed = parseDueDate(options.due);
+        if (parsed.error) {
+          console.error(parsed.error);
+          process.exit(1);
+        }
+        dueDate = parsed.date;
+      }
+
+      // The issue's team: --team, else the default team (auto-detected if none is set)
+      let team = getTeamKey();
+      if (options.team) {
+        const keys = parseTeamKeys(options.team);
+        if (keys.length !== 1) {
+          console.error("An issue belongs to one team: give a single key to --team");
+          process.exit(1);
+        }
+        team = keys[0];
+      }
+
+      const cycle = options.cycle
+        ? resolveCycle(options.cycle, getTeamCycles(team)).number
+        : undefined;
+      const milestone = options.milestone
+        ? (await resolveMilestone(options.milestone, team)).name
+        : undefined;
+
       // Handle issue type - only if types are enabled or explicitly provided
       let issueType: IssueType | undefined;
       if (options.type) {
@@ -102,6 +197,8 @@ export const createCommand = new Command("create")
         }
       }
 
+      const labels: string[] = [...new Set<string>(options.label || [])];
+
       // Build deps array from explicit flags + legacy --deps
       const allDeps: Array<{ type: string; targetId: string }> = [];
 
@@ -126,6 +223,29 @@ export const createCommand = new Command("create")
         allDeps.push(...parseDeps(options.deps));
       }
 
+      // The new issue has no links yet, but its own deps can still form a cycle
+      assertNoDependencyCycle(dependencyEdges("(new issue)", allDeps, options.parent));
+
+      // Check cached open issues for likely duplicates
+      const duplicates = findDuplicateCandidates({ title, description: options.description });
+      const duplicatesExtra = duplicates.length > 0 ? { duplicates } : undefined;
+      if (duplicates.length > 0) {
+        if (!options.duplicates) {
+          console.error(
+            `Refusing to create: likely duplicate of ${duplicates.map((d) => d.id).join(", ")}. Use lb update instead, or drop --no-duplicates.`
+          );
+          if (options.json) {
+            output(JSON.stringify({ created: false, duplicates }, null, 2));
+          }
+          process.exit(1);
+        }
+        for (const dup of duplicates) {
+          console.warn(
+            `Warning: possible duplicate of ${dup.id}: ${dup.title} (${Math.round(dup.similarity * 100)}% similar)`
+          );
+        }
+      }
+
       // Local-only mode: create locally without Linear
       if (isLocalOnly()) {
         const localId = generateLocalId();
@@ -138,47 +258,22 @@ export const createCommand = new Command("create")
           status: "open",
           priority,
           issue_type: issueType,
+          estimate,
+          due_date: dueDate,
+          cycle,
+          milestone,
+          team,
           created_at: now,
           updated_at: now,
         };
-
-        cacheIssue(issue);
-
-        // Handle parent relationship
-        if (options.parent) {
-          cacheDependency({
-            issue_id: localId,
-            depends_on_id: options.parent,
-            type: "parent-child",
-            created_at: now,
-            created_by: "local",
-          });
+        if (labels.length > 0) {
+          issue.labels = labels.sort();
         }
 
-        // Handle deps
-        for (const dep of allDeps) {
-          if (dep.type === "blocked-by") {
-            cacheDependency({
-              issue_id: dep.targetId,
-              depends_on_id: localId,
-              type: "blocks",
-              created_at: now,
-              created_by: "local",
-            });
-          } else {
-            const depType = dep.type === "blocks" ? "blocks" : "related";
-            cacheDependency({
-              issue_id: localId,
-              depends_on_id: dep.targetId,
-              type: depType as "blocks" | "related",
-              created_at: now,
-              created_by: "local",
-            });
-          }
-        }
+        cacheLocalIssue(issue, options.parent, allDeps);
 
         if (options.json) {
-          output(formatIssueJson(issue));
+          output(formatIssueJson(issue, duplicatesExtra));
         } else {
           output(`Created: ${localId}: ${title}`);
         }
@@ -187,7 +282,7 @@ export const createCommand = new Command("create")
 
       if (options.sync) {
         // Sync mode: create directly in Linear
-        const teamId = await getTeamId(options.team);
+        const teamId = await getTeamId(team);
 
         // Resolve assignee
         let assigneeId: string | undefined;
@@ -218,9 +313,14 @@ export const createCommand = new Command("create")
           description: options.description,
           priority,
           issueType, // undefined if types disabled
+          estimate,
+          dueDate,
+          cycle,
+          milestone,
           teamId,
           parentId: options.parent,
           assigneeId,
+          labels,
         });
 
         // Handle deps after issue creation
@@ -245,7 +345,7 @@ export const createCommand = new Command("create")
         }
 
         if (options.json) {
-          output(formatIssueJson(issue));
+          output(formatIssueJson(issue, duplicatesExtra));
         } else {
           output(formatIssueHuman(issue));
         }
@@ -257,7 +357,11 @@ export const createCommand = new Command("create")
         // Convert allDeps to string format for queue
         const depsString = allDeps.map((d) => `${d.type}:${d.targetId}`).join(",");
 
+        // Temporary ID usable right away; the worker remaps it once Linear assigns one
+        const tempId = generateTempId();
+
         const payload: Record<string, unknown> = {
+          tempId,
           title,
           description: options.description,
           priority,
@@ -269,27 +373,55 @@ export const createCommand = new Command("create")
         if (issueType) {
           payload.issueType = issueType;
         }
-        queueOutboxItem("create", payload);
-
-        // Spawn background worker if not already running
-        ensureOutboxProcessed();
-
-        // Return a placeholder response immediately
+        if (estimate !== undefined) {
+          payload.estimate = estimate;
+        }
+        if (dueDate) {
+          payload.dueDate = dueDate;
+        }
+        if (cycle !== undefined) {
+          payload.cycle = cycle;
+        }
+        if (milestone) {
+          payload.milestone = milestone;
+        }
+        if (team) {
+          payload.team = team;
+        }
+        if (labels.length > 0) {
+          payload.labels = labels;
+        }
+        // Cache a placeholder so the issue shows up immediately
+        const now = new Date().toISOString();
         const placeholder: Issue = {
-          id: "pending",
+          id: tempId,
           title,
           description: options.description,
           status: "open" as const,
           priority,
           issue_type: issueType,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
+          estimate,
+          due_date: dueDate,
+          cycle,
+          milestone,
+          team,
+          created_at: now,
+          updated_at: now,
         };
+        if (labels.length > 0) {
+          placeholder.labels = labels.sort();
+        }
+        cacheLocalIssue(placeholder, options.parent, allDeps);
+
+        queueOutboxItem("create", payload);
+
+        // Spawn background worker if not already running
+        ensureOutboxProcessed();
 
         if (options.json) {
-          output(formatIssueJson(placeholder));
+          output(formatIssueJson(placeholder, duplicatesExtra));
         } else {
-          output(`Created: ${title}`);
+          output(`Created: ${tempId}: ${title} (queued, ID changes once synced)`);
         }
       }
     } catch (error) {
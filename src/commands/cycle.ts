@@ -0,0 +1,149 @@
+/**
+ * lb cycle - Show Linear cycles (sprints) and the work in them
+ */
+
+import { Command } from "commander";
+import { ensureFresh } from "../utils/sync.js";
+import { getCachedCycles, getCachedIssues } from "../utils/database.js";
+import { fetchCycles, getTeamId } from "../utils/linear.js";
+import { cycleState, formatCycleDates, formatCycleName } from "../utils/cycles.js";
+import { formatIssuesListHuman, formatProgressBar, output } from "../utils/output.js";
+import { isLocalOnly } from "../utils/config.js";
+import type { Cycle, Issue } from "../types.js";
+
+/**
+ * Cached cycles for the team, fetching them first with --sync or if none are cached.
+ * Offline (or local-only) this is whatever the cache holds.
+ */
+async function loadCycles(options: { team?: string; sync?: boolean }): Promise<Cycle[]> {
+  if (isLocalOnly()) {
+    return getCachedCycles();
+  }
+  try {
+    await ensureFresh(options.team, options.sync);
+    const teamId = await getTeamId(options.team);
+    if (options.sync || getCachedCycles(teamId).length === 0) {
+      await fetchCycles(teamId);
+    }
+    return getCachedCycles(teamId);
+  } catch {
+    // Offline: use the cache as it is
+    return getCachedCycles();
+  }
+}
+
+/**
+ * Cached issues in a cycle, and how many of them are closed
+ */
+function cycleIssues(cycle: Cycle): { issues: Issue[]; closed: number } {
+  const issues = getCachedIssues().filter((i) => i.cycle === cycle.number);
+  return { issues, closed: issues.filter((i) => i.status === "closed").length };
+}
+
+// Main cycle command
+export const cycleCommand = new Command("cycle").description("Show Linear cycles (sprints)");
+
+// lb cycle list
+const listCommand = new Command("list")
+  .description("List recent, current and upcoming cycles")
+  .option("-j, --json", "Output as JSON")
+  .option("--sync", "Re-fetch cycles from Linear")
+  .option("--team <team>", "Team key (overrides config)")
+  .action(async (options) => {
+    try {
+      const cycles = await loadCycles(options);
+      const rows = cycles.map((cycle) => {
+        const { issues, closed } = cycleIssues(cycle);
+        return { cycle, state: cycleState(cycle), total: issues.length, closed };
+      });
+
+      if (options.json) {
+        const result = rows.map(({ cycle, state, total, closed }) => ({
+          number: cycle.number,
+          name: cycle.name || null,
+          starts_at: cycle.starts_at,
+          ends_at: cycle.ends_at,
+          completed_at: cycle.completed_at || null,
+          state,
+          issues: total,
+          closed,
+        }));
+        output(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      if (rows.length === 0) {
+        output("No cycles found. Turn on cycles for the team in Linear to plan in sprints.");
+        return;
+      }
+
+      output(`\n🔁 Cycles (${rows.length}):\n`);
+      const names = rows.map(({ cycle }) => formatCycleName(cycle));
+      const maxNameLen = Math.max(...names.map((n) => n.length));
+      rows.forEach(({ cycle, state, total, closed }, index) => {
+        const marker = state === "current" ? "▶" : " ";
+        output(
+          `${marker} ${names[index].padEnd(maxNameLen)}  ${formatCycleDates(cycle)}  ${state.padEnd(8)}  ${closed}/${total} closed`
+        );
+      });
+      output("");
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// lb cycle current
+const currentCommand = new Command("current")
+  .description("Show the active cycle and its issues")
+  .option("-j, --json", "Output as JSON")
+  .option("--sync", "Re-fetch cycles from Linear")
+  .option("--team <team>", "Team key (overrides config)")
+  .action(async (options) => {
+    try {
+      const cycle = (await loadCycles(options)).find((c) => cycleState(c) === "current");
+
+      if (!cycle) {
+        if (options.json) {
+          output(JSON.stringify({ cycle: null, issues: [] }, null, 2));
+        } else {
+          output("No cycle is active right now.");
+        }
+        return;
+      }
+
+      const { issues, closed } = cycleIssues(cycle);
+      issues.sort((a, b) => {
+        if (a.priority !== b.priority) return a.priority - b.priority;
+        return a.id.localeCompare(b.id, undefined, { numeric: true });
+      });
+      const percent = issues.length > 0 ? Math.round((closed / issues.length) * 100) : 0;
+
+      if (options.json) {
+        const result = {
+          cycle: {
+            number: cycle.number,
+            name: cycle.name || null,
+            starts_at: cycle.starts_at,
+            ends_at: cycle.ends_at,
+          },
+          closed,
+          percent,
+          issues,
+        };
+        output(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      output(`\n🔁 ${formatCycleName(cycle)}: ${formatCycleDates(cycle)}`);
+      output(`${formatProgressBar(percent)} ${percent}% (${closed}/${issues.length} closed)\n`);
+      output(formatIssuesListHuman(issues));
+      output("");
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+cycleCommand.addCommand(listCommand);
+cycleCommand.addCommand(currentCommand);
@@ -6,78 +6,168 @@ import { Command } from "commander";
 import { createRelation, deleteRelation } from "../utils/linear.js";
 import {
   getDependencies,
+  getInverseDependencies,
+  getBlockedIssueIds,
   getCachedIssue,
-  getDatabase,
   cacheDependency,
   deleteDependency,
 } from "../utils/database.js";
 import { output, outputError } from "../utils/output.js";
 import { queueOperation } from "../utils/spawn-worker.js";
 import { isLocalOnly } from "../utils/config.js";
+import {
+  assertNoDependencyCycle,
+  dependencyEdges,
+  findDependencyProblems,
+} from "../utils/dependency-graph.js";
+import {
+  collectDependencyGraph,
+  renderDependencyGraph,
+  GRAPH_FORMATS,
+} from "../utils/graph-export.js";
+import type { GraphFormat } from "../utils/graph-export.js";
 import type { Dependency } from "../types.js";
 
+const TREE_TYPES: Dependency["type"][] = ["blocks", "related", "parent-child", "discovered-from"];
+
 /**
- * Get all dependencies involving an issue (both directions)
+ * Which links lb dep tree follows from each issue
  */
-function getAllDependencies(issueId: string): { outgoing: Dependency[]; incoming: Dependency[] } {
-  const db = getDatabase();
+interface TreeOptions {
+  outgoing: boolean;
+  incoming: boolean;
+  types: Dependency["type"][];
+  maxDepth: number;
+  blocked: Set<string>;
+}
 
-  const outgoing = db
-    .query("SELECT * FROM dependencies WHERE issue_id = ?")
-    .all(issueId) as Dependency[];
-  const incoming = db
-    .query("SELECT * FROM dependencies WHERE depends_on_id = ?")
-    .all(issueId) as Dependency[];
+/**
+ * A node of lb dep tree (--json shape)
+ */
+interface TreeNode {
+  id: string;
+  title: string | null;
+  status: string | null;
+  priority: number | null;
+  ready: boolean;
+  // How this issue relates to the one above it, e.g. "blocked by"
+  relation?: string;
+  // Already on the path from the root (the tree stops here)
+  circular?: boolean;
+  // Already shown elsewhere in the tree (not expanded again)
+  repeated?: boolean;
+  children: TreeNode[];
+}
 
-  return { outgoing, incoming };
+/**
+ * Describe a link as seen from the issue we're walking from
+ */
+function relationLabel(dep: Dependency, outgoing: boolean): string {
+  switch (dep.type) {
+    case "blocks":
+      return outgoing ? "blocks" : "blocked by";
+    case "parent-child":
+      return outgoing ? "parent" : "subtask";
+    case "discovered-from":
+      return outgoing ? "discovered from" : "led to";
+    default:
+      return "related";
+  }
 }
 
+type TreeLink = { dep: Dependency; outgoing: boolean };
+
 /**
- * Print dependency tree recursively
+ * Build the dependency tree below an issue.
+ * With both directions the root's outgoing and incoming links are walked as separate
+ * trees, each continuing in its own direction. Each issue is expanded once per direction;
+ * later occurrences are marked repeated, or circular when the walk came back to it.
  */
-function printTree(
+function buildTree(
   issueId: string,
-  prefix: string = "",
-  isLast: boolean = true,
-  visited: Set<string> = new Set()
-): void {
-  if (visited.has(issueId)) {
-    output(`${prefix}${isLast ? "└── " : "├── "}${issueId} (circular)`);
-    return;
+  options: TreeOptions,
+  depth: number = 0,
+  via: TreeLink | null = null,
+  path: Set<string> = new Set(),
+  shown: Set<string> = new Set()
+): TreeNode {
+  const issue = getCachedIssue(issueId);
+  const node: TreeNode = {
+    id: issueId,
+    title: issue?.title ?? null,
+    status: issue?.status ?? null,
+    priority: issue?.priority ?? null,
+    // Same rule as lb ready, including blockers inherited from parents
+    ready: issue?.status === "open" && !options.blocked.has(issueId),
+    ...(via && { relation: relationLabel(via.dep, via.outgoing) }),
+    children: [],
+  };
+
+  if (path.has(issueId)) {
+    node.circular = true;
+    return node;
+  }
+  // Below the root, keep walking in the direction of the link we came in on
+  const outgoing = via ? via.outgoing : options.outgoing;
+  const incoming = via ? !via.outgoing : options.incoming;
+  const shownKey = `${outgoing ? ">" : ""}${incoming ? "<" : ""}${issueId}`;
+  if (shown.has(shownKey)) {
+    node.repeated = true;
+    return node;
   }
-  visited.add(issueId);
+  shown.add(shownKey);
+  if (depth >= options.maxDepth) return node;
 
-  const issue = getCachedIssue(issueId);
-  const title = issue?.title || "Unknown";
-  const priority = issue?.priority ?? "?";
-  const status = issue?.status || "unknown";
-
-  // Check if this issue is ready (no open blockers)
-  const { incoming } = getAllDependencies(issueId);
-  const blockers = incoming.filter((d) => d.type === "blocks");
-  const openBlockers = blockers.filter((d) => {
-    const blockerIssue = getCachedIssue(d.issue_id);
-    return blockerIssue && blockerIssue.status !== "closed";
-  });
-  const isReady = openBlockers.length === 0 && status !== "closed";
-  const readyTag = isReady ? " [READY]" : "";
+  const links: TreeLink[] = [];
+  if (outgoing) {
+    links.push(...getDependencies(issueId).map((dep) => ({ dep, outgoing: true })));
+  }
+  if (incoming) {
+    links.push(...getInverseDependencies(issueId).map((dep) => ({ dep, outgoing: false })));
+  }
 
-  if (prefix === "") {
+  path.add(issueId);
+  for (const link of links) {
+    const { dep, outgoing } = link;
+    if (!options.types.includes(dep.type)) continue;
+    // Don't walk straight back along the link we came in on
+    if (
+      via &&
+      dep.issue_id === via.dep.issue_id &&
+      dep.depends_on_id === via.dep.depends_on_id &&
+      dep.type === via.dep.type
+    ) {
+      continue;
+    }
+
+    const nextId = outgoing ? dep.depends_on_id : dep.issue_id;
+    node.children.push(buildTree(nextId, options, depth + 1, link, path, shown));
+  }
+  path.delete(issueId);
+
+  return node;
+}
+
+/**
+ * Print a dependency tree with box-drawing branches
+ */
+function printTree(node: TreeNode, prefix: string = "", isLast: boolean = true): void {
+  const details =
+    node.title === null
+      ? "Unknown"
+      : `${node.title} [P${node.priority}] (${node.status})${node.ready ? " [READY]" : ""}`;
+  const marker = node.circular ? " (circular)" : node.repeated ? " (see above)" : "";
+
+  if (!node.relation) {
     // Root node
-    output(`${issueId}: ${title} [P${priority}] (${status})${readyTag}`);
+    output(`${node.id}: ${details}`);
   } else {
-    output(
-      `${prefix}${isLast ? "└── " : "├── "}${issueId}: ${title} [P${priority}] (${status})${readyTag}`
-    );
+    output(`${prefix}${isLast ? "└── " : "├── "}${node.relation}: ${node.id}: ${details}${marker}`);
   }
 
-  // Get outgoing dependencies (things this issue depends on)
-  const deps = getDependencies(issueId);
-  const childPrefix = prefix + (isLast ? "    " : "│   ");
-
-  deps.forEach((dep, index) => {
-    const isLastDep = index === deps.length - 1;
-    printTree(dep.depends_on_id, childPrefix, isLastDep, visited);
+  const childPrefix = node.relation ? prefix + (isLast ? "    " : "│   ") : prefix;
+  node.children.forEach((child, index) => {
+    printTree(child, childPrefix, index === node.children.length - 1);
   });
 }
 
@@ -100,6 +190,15 @@ const addCommand = new Command("add")
         process.exit(1);
       }
 
+      // Refuse cycles before writing anything
+      assertNoDependencyCycle(
+        dependencyEdges(issueId, [
+          ...(options.blocks ? [{ type: "blocks", targetId: options.blocks }] : []),
+          ...(options.blockedBy ? [{ type: "blocked-by", targetId: options.blockedBy }] : []),
+          ...(options.related ? [{ type: "related", targetId: options.related }] : []),
+        ])
+      );
+
       const localOnly = isLocalOnly();
       const now = new Date().toISOString();
 
@@ -210,7 +309,15 @@ const removeCommand = new Command("remove")
 const treeCommand = new Command("tree")
   .description("Show dependency tree for an issue")
   .argument("<issue>", "Issue ID")
-  .action(async (issueId: string) => {
+  .option("--reverse", "Walk incoming links instead (what depends on this issue)")
+  .option("--both", "Walk links in both directions")
+  .option("--depth <n>", "Stop after N levels")
+  .option(
+    "--type <types>",
+    `Only follow these link types (comma-separated): ${TREE_TYPES.join(", ")}`
+  )
+  .option("-j, --json", "Output as JSON")
+  .action(async (issueId: string, options) => {
     try {
       const issue = getCachedIssue(issueId);
       if (!issue) {
@@ -218,8 +325,46 @@ const treeCommand = new Command("tree")
         process.exit(1);
       }
 
-      output(`\n🌲 Dependency tree for ${issueId}:\n`);
-      printTree(issueId);
+      if (options.reverse && options.both) {
+        outputError("Use either --reverse or --both, not both");
+        process.exit(1);
+      }
+
+      let maxDepth = Infinity;
+      if (options.depth !== undefined) {
+        maxDepth = parseInt(options.depth);
+        if (isNaN(maxDepth) || maxDepth < 1) {
+          outputError(`Invalid depth '${options.depth}'. Must be a positive number`);
+          process.exit(1);
+        }
+      }
+
+      let types = TREE_TYPES;
+      if (options.type) {
+        types = (options.type as string).split(",").map((t) => t.trim()) as Dependency["type"][];
+        const invalid = types.find((t) => !TREE_TYPES.includes(t));
+        if (invalid) {
+          outputError(`Invalid type '${invalid}'. Must be one of: ${TREE_TYPES.join(", ")}`);
+          process.exit(1);
+        }
+      }
+
+      const tree = buildTree(issue.id, {
+        outgoing: !options.reverse,
+        incoming: options.reverse || options.both,
+        types,
+        maxDepth,
+        blocked: getBlockedIssueIds(),
+      });
+
+      if (options.json) {
+        output(JSON.stringify([tree], null, 2));
+        return;
+      }
+
+      const direction = options.both ? " (both directions)" : options.reverse ? " (reverse)" : "";
+      output(`\n🌲 Dependency tree for ${issue.id}${direction}:\n`);
+      printTree(tree);
       output("");
     } catch (error) {
       outputError(error instanceof Error ? error.message : String(error));
@@ -227,6 +372,70 @@ const treeCommand = new Command("tree")
     }
   });
 
+// lb dep check
+const checkCommand = new Command("check")
+  .description("Check all dependencies for cycles and self-references")
+  .option("-j, --json", "Output as JSON")
+  .action(async (options) => {
+    try {
+      const problems = findDependencyProblems();
+
+      if (options.json) {
+        output(JSON.stringify(problems, null, 2));
+      } else if (problems.length === 0) {
+        output("✓ No dependency cycles or self-references");
+      } else {
+        output(`\n⚠ Found ${problems.length} dependency problem(s):\n`);
+        for (const problem of problems) {
+          const label = problem.type === "cycle" ? "Cycle" : "Self-reference";
+          output(`  ${label}: ${problem.description}`);
+        }
+        output("\nRemove one link of each with lb dep remove.\n");
+      }
+
+      if (problems.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// lb dep graph
+const graphCommand = new Command("graph")
+  .description("Export the dependency graph as Graphviz DOT or Mermaid")
+  .argument("[issue]", "Only the issues connected to this one")
+  .option("-f, --format <format>", "Output format: mermaid, dot", "mermaid")
+  .action(async (issueId: string | undefined, options) => {
+    try {
+      if (!GRAPH_FORMATS.includes(options.format)) {
+        outputError(
+          `Invalid format '${options.format}'. Must be one of: ${GRAPH_FORMATS.join(", ")}`
+        );
+        process.exit(1);
+      }
+
+      let rootId: string | undefined;
+      if (issueId) {
+        const issue = getCachedIssue(issueId);
+        if (!issue) {
+          outputError(`Issue not found: ${issueId}`);
+          process.exit(1);
+        }
+        rootId = issue.id;
+      }
+
+      const graph = collectDependencyGraph(rootId);
+      output(renderDependencyGraph(graph, options.format as GraphFormat));
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 depCommand.addCommand(addCommand);
 depCommand.addCommand(removeCommand);
 depCommand.addCommand(treeCommand);
+depCommand.addCommand(checkCommand);
+depCommand.addCommand(graphCommand);
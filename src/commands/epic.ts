@@ -0,0 +1,76 @@
+/**
+ * lb epic - Show progress of every issue that has subtasks
+ */
+
+import { Command } from "commander";
+import { ensureFresh } from "../utils/sync.js";
+import { getCachedIssue, getParentIssueIds, getParentId } from "../utils/database.js";
+import { getProgress } from "../utils/progress.js";
+import { formatProgressBar, output } from "../utils/output.js";
+import { isLocalOnly } from "../utils/config.js";
+import type { Issue, Progress } from "../types.js";
+
+export const epicCommand = new Command("epic")
+  .description("Show progress of issues with subtasks")
+  .option("-j, --json", "Output as JSON")
+  .option("-a, --all", "Include closed parents")
+  .option("--sync", "Force sync before listing")
+  .option("--team <team>", "Team key (overrides config)")
+  .action(async (options) => {
+    try {
+      // Try to ensure cache is fresh, but don't fail if offline
+      if (!isLocalOnly()) {
+        try {
+          await ensureFresh(options.team, options.sync);
+        } catch {
+          // Offline: show progress from the cache as it is
+        }
+      }
+
+      const epics: Array<{ issue: Issue; progress: Progress }> = [];
+      for (const id of getParentIssueIds()) {
+        const issue = getCachedIssue(id);
+        if (!issue || (issue.status === "closed" && !options.all)) continue;
+        const progress = getProgress(id);
+        if (progress) epics.push({ issue, progress });
+      }
+
+      // Sort by priority, then ID
+      epics.sort((a, b) => {
+        if (a.issue.priority !== b.issue.priority) return a.issue.priority - b.issue.priority;
+        return a.issue.id.localeCompare(b.issue.id, undefined, { numeric: true });
+      });
+
+      if (options.json) {
+        const result = epics.map(({ issue, progress }) => ({
+          id: issue.id,
+          title: issue.title,
+          status: issue.status,
+          priority: issue.priority,
+          parent: getParentId(issue.id),
+          progress,
+        }));
+        output(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      if (epics.length === 0) {
+        output("No issues with subtasks.");
+        return;
+      }
+
+      output(`\n📊 Epics (${epics.length}):\n`);
+      const maxIdLen = Math.max(...epics.map((e) => e.issue.id.length));
+      for (const { issue, progress } of epics) {
+        const percent = `${progress.percent}%`.padStart(4);
+        const counts = `${progress.closed}/${progress.total}`.padEnd(7);
+        output(
+          `${issue.id.padEnd(maxIdLen)}  ${formatProgressBar(progress.percent)} ${percent}  ${counts}  ${issue.title}`
+        );
+      }
+      output("");
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
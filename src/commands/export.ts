@@ -137,6 +137,7 @@ export const exportCommand = new Command("export")
         if (issue.description) beadsIssue.description = issue.description;
         beadsIssue.issue_type = issue.issue_type || "task";
         if (issue.closed_at) beadsIssue.closed_at = issue.closed_at;
+        if (issue.labels && issue.labels.length > 0) beadsIssue.labels = issue.labels;
         if (parent) beadsIssue.parent = parent;
         if (deps.length > 0) beadsIssue.dependencies = deps;
 
@@ -12,24 +12,38 @@ import {
 } from "../utils/database.js";
 import { formatIssuesListJson, formatIssuesListHuman, output } from "../utils/output.js";
 import { getViewer } from "../utils/linear.js";
-import type { IssueStatus } from "../types.js";
-import { parsePriority, VALID_ISSUE_TYPES } from "../types.js";
-import { useTypes, isLocalOnly } from "../utils/config.js";
+import { filterIssues } from "../utils/issue-filters.js";
+import { isLocalOnly } from "../utils/config.js";
+import { formatDue } from "../utils/due-dates.js";
 
-const VALID_STATUSES: IssueStatus[] = ["open", "in_progress", "closed"];
+/**
+ * Collect repeatable option values into an array
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return previous.concat([value]);
+}
 
 export const listCommand = new Command("list")
   .description("List issues")
   .option("-j, --json", "Output as JSON")
   .option("-a, --all", "Show all issues (not just mine)")
-  .option("-s, --status <status>", "Filter by status: open, in_progress, closed")
+  .option(
+    "-s, --status <status>",
+    "Filter by status: open, in_progress, closed (or a custom status)"
+  )
   .option(
     "-p, --priority <priority>",
     "Filter by priority: urgent, high, medium, low, backlog (or 0-4)"
   )
   .option("-t, --type <type>", "Filter by type: bug, feature, task, epic, chore")
+  .option("-l, --label <name>", "Filter by label (repeatable, all must match)", collect)
+  .option("--parent <id>", "Filter by parent issue (subtasks of ID)")
+  .option("--cycle <cycle>", "Filter by cycle: current, next, or a cycle number")
+  .option("--milestone <name>", "Filter by repo project milestone")
+  .option("--overdue", "Only open issues past their due date")
+  .option("--due-before <date>", "Only issues due before DATE (YYYY-MM-DD, friday, +7d, ...)")
   .option("--sync", "Force sync before listing")
-  .option("--team <team>", "Team key (overrides config)")
+  .option("--team <teams>", "Only issues of these teams (comma-separated keys)")
   .action(async (options) => {
     try {
       // Try to ensure cache is fresh, but don't fail if offline
@@ -54,36 +68,7 @@ export const listCommand = new Command("list")
       }
 
       // Apply filters with validation
-      if (options.status) {
-        if (!VALID_STATUSES.includes(options.status)) {
-          console.error(
-            `Invalid status '${options.status}'. Must be one of: ${VALID_STATUSES.join(", ")}`
-          );
-          process.exit(1);
-        }
-        issues = issues.filter((i) => i.status === options.status);
-      }
-      if (options.priority !== undefined) {
-        const { priority, error: priorityError } = parsePriority(options.priority);
-        if (priorityError || priority === undefined) {
-          console.error(priorityError);
-          process.exit(1);
-        }
-        issues = issues.filter((i) => i.priority === priority);
-      }
-      if (options.type) {
-        if (!useTypes()) {
-          console.warn(`Warning: -t ignored (issue types disabled in config)`);
-        } else {
-          if (!VALID_ISSUE_TYPES.includes(options.type)) {
-            console.error(
-              `Invalid type '${options.type}'. Must be one of: ${VALID_ISSUE_TYPES.join(", ")}`
-            );
-            process.exit(1);
-          }
-          issues = issues.filter((i) => i.issue_type === options.type);
-        }
-      }
+      issues = filterIssues(issues, options);
 
       // Sort by priority, then updated_at
       issues.sort((a, b) => {
@@ -119,7 +104,9 @@ export const listCommand = new Command("list")
           const priorityName = ["crit", "high", "medi", "low", "back"][issue.priority] || "medi";
           const status = issue.status.padEnd(12);
 
-          output(`${issue.id}  ${status}  ${priorityName}  ${issue.title}${parentSuffix}`);
+          output(
+            `${issue.id}  ${status}  ${priorityName}  ${issue.title}${parentSuffix}${formatDue(issue)}`
+          );
         }
 
         // Show stale cache warning if sync failed or cache is old (skip in local-only mode)
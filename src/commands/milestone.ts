@@ -0,0 +1,151 @@
+/**
+ * lb milestone - List and create milestones of the repo project
+ */
+
+import { Command } from "commander";
+import { randomUUID } from "crypto";
+import { ensureFresh } from "../utils/sync.js";
+import {
+  cacheMilestone,
+  getCachedMilestones,
+  getCachedMilestoneByName,
+} from "../utils/database.js";
+import { createMilestone, fetchMilestones, getTeamId } from "../utils/linear.js";
+import {
+  assertMilestonesEnabled,
+  getMilestoneIssues,
+  getMilestoneProgress,
+} from "../utils/milestones.js";
+import { parseDueDate } from "../utils/due-dates.js";
+import { formatProgressHuman, output, outputError } from "../utils/output.js";
+import { isLocalOnly } from "../utils/config.js";
+import type { Milestone } from "../types.js";
+
+// Main milestone command
+export const milestoneCommand = new Command("milestone").description(
+  "List and create milestones of the repo project"
+);
+
+// lb milestone list
+const listCommand = new Command("list")
+  .description("List milestones with progress")
+  .option("-j, --json", "Output as JSON")
+  .option("--sync", "Re-fetch milestones from Linear")
+  .option("--team <team>", "Team key (overrides config)")
+  .action(async (options) => {
+    try {
+      assertMilestonesEnabled();
+
+      if (!isLocalOnly()) {
+        try {
+          await ensureFresh(options.team, options.sync);
+          if (options.sync || getCachedMilestones().length === 0) {
+            await fetchMilestones(await getTeamId(options.team));
+          }
+        } catch {
+          // Offline: list from the cache as it is
+        }
+      }
+
+      const milestones = getCachedMilestones().map((milestone) => ({
+        milestone,
+        issues: getMilestoneIssues(milestone).length,
+        progress: getMilestoneProgress(milestone),
+      }));
+
+      if (options.json) {
+        const result = milestones.map(({ milestone, issues, progress }) => ({
+          name: milestone.name,
+          target_date: milestone.target_date || null,
+          issues,
+          progress,
+        }));
+        output(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      if (milestones.length === 0) {
+        output("No milestones. Create one with lb milestone create <name>.");
+        return;
+      }
+
+      output(`\n🏁 Milestones (${milestones.length}):\n`);
+      for (const { milestone, progress } of milestones) {
+        const target = milestone.target_date ? ` (target ${milestone.target_date})` : "";
+        output(`${milestone.name}${target}`);
+        output(`  ${progress ? formatProgressHuman(progress) : "No issues yet"}`);
+      }
+      output("");
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// lb milestone create
+const createCommand = new Command("create")
+  .description("Create a milestone in the repo project")
+  .argument("<name>", "Milestone name")
+  .option("-d, --description <desc>", "Milestone description")
+  .option("--target <date>", "Target date: YYYY-MM-DD, friday, +2w, ...")
+  .option("-j, --json", "Output as JSON")
+  .option("--team <team>", "Team key (overrides config)")
+  .action(async (name: string, options) => {
+    try {
+      assertMilestonesEnabled();
+
+      let targetDate: string | undefined;
+      if (options.target !== undefined) {
+        const { date, error } = parseDueDate(options.target);
+        if (error) {
+          outputError(error);
+          process.exit(1);
+        }
+        targetDate = date;
+      }
+
+      if (getCachedMilestoneByName(name)) {
+        outputError(`Milestone already exists: ${name}`);
+        process.exit(1);
+      }
+
+      let milestone: Milestone;
+      if (isLocalOnly()) {
+        const existing = getCachedMilestones();
+        milestone = {
+          id: randomUUID(),
+          project_id: "local",
+          name,
+          sort_order: existing.length > 0 ? existing[existing.length - 1].sort_order + 1 : 0,
+        };
+        if (targetDate) milestone.target_date = targetDate;
+        cacheMilestone(milestone);
+      } else {
+        const teamId = await getTeamId(options.team);
+        milestone = await createMilestone(teamId, {
+          name,
+          description: options.description,
+          targetDate,
+        });
+      }
+
+      if (options.json) {
+        output(
+          JSON.stringify(
+            [{ name: milestone.name, target_date: milestone.target_date || null }],
+            null,
+            2
+          )
+        );
+      } else {
+        const target = milestone.target_date ? ` (target ${milestone.target_date})` : "";
+        output(`Created milestone: ${milestone.name}${target}`);
+      }
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+milestoneCommand.addCommand(listCommand);
+milestoneCommand.addCommand(createCommand);
@@ -85,13 +85,24 @@ lb show LIN-XXX            # Full details with all relationships
 | \`lb ready\` | Show unblocked issues |
 | \`lb blocked\` | Show blocked issues with blockers |
 | \`lb show ID\` | Full issue details + relationships |
+| \`lb epic\` | Progress of issues with subtasks |
+| \`lb plan [ID]\` | Order open work into parallel waves |
+| \`lb ready --cycle current\` | Ready work in the active sprint |
+| \`lb milestone list\` | Project milestones with progress |
+| \`lb ready --team APP\` | Ready work of one team (comma-separate several) |
+| \`lb search "words"\` | Find existing issues before creating one |
 | \`lb create "Title" -d "..."\` | Create issue |
 | \`lb create "Title" --parent ID\` | Create subtask |
 | \`lb create "Title" --blocked-by ID\` | Create blocked issue |
 | \`lb update ID --status in_progress\` | Claim work |
+| \`lb update ID --estimate 3\` | Set story points |
+| \`lb list --overdue\` | Open issues past their due date |
 | \`lb close ID --reason "why"\` | Complete work |
+| \`lb close ID --wont-fix --reason "why"\` | Close without doing it |
+| \`lb reopen ID --reason "why"\` | Reopen a regression |
+| \`lb comment add ID "note"\` | Leave a progress note |
 | \`lb dep add ID --blocks OTHER\` | Add blocking dependency |
-| \`lb dep tree ID\` | Show dependency tree |
+| \`lb dep tree ID\` | Show dependency tree (\`--reverse\` for what blocks it) |
 
 ### Rules
 
@@ -0,0 +1,317 @@
+/**
+ * lb outbox - Inspect and repair the queue of pending changes
+ */
+
+import { Command } from "commander";
+import {
+  getPendingOutboxItems,
+  getDeadOutboxItems,
+  getOutboxItem,
+  removeOutboxItem,
+  reviveOutboxItem,
+  updateOutboxItemPayload,
+  deleteCachedComment,
+  deleteCachedIssue,
+} from "../utils/database.js";
+import { getTeamId } from "../utils/linear.js";
+import { processOutboxItem } from "../utils/background-sync-worker.js";
+import { getRetryDelayMs, isOutboxItemDue, recordOutboxFailure } from "../utils/outbox-retry.js";
+import { isWorkerRunning } from "../utils/pid-manager.js";
+import { output, outputError } from "../utils/output.js";
+import { isLocalOnly } from "../utils/config.js";
+import type { OutboxItem } from "../types.js";
+
+/**
+ * Shorten text for one-line display
+ */
+function truncate(text: string, max: number = 50): string {
+  const oneLine = text.replace(/\s+/g, " ");
+  return oneLine.length > max ? `${oneLine.slice(0, max - 3)}...` : oneLine;
+}
+
+/**
+ * One-line human summary of what an outbox item will do
+ */
+function summarizePayload(item: OutboxItem): string {
+  const p = item.payload as Record<string, string | undefined>;
+  switch (item.operation) {
+    case "create":
+      return `${p.tempId ? `${p.tempId} ` : ""}"${truncate(p.title || "")}"${p.parentId ? ` (parent ${p.parentId})` : ""}`;
+    case "update": {
+      const fields = Object.keys(item.payload).filter((k) => k !== "issueId" && k !== "base");
+      return `${p.issueId}: ${fields.join(", ") || "no fields"}`;
+    }
+    case "close": {
+      const resolution =
+        p.resolution && p.resolution !== "done"
+          ? ` as ${p.resolution}${p.duplicateOf ? ` of ${p.duplicateOf}` : ""}`
+          : "";
+      return `${p.issueId}${resolution}${p.reason ? `: ${truncate(p.reason)}` : ""}`;
+    }
+    case "delete":
+      return `${p.issueId}`;
+    case "create_relation":
+      return `${p.issueId} ${p.type} ${p.relatedIssueId}`;
+    case "delete_relation":
+      return `${p.issueA} <-> ${p.issueB}`;
+    case "create_comment":
+      return `${p.issueId}: "${truncate(p.body || "")}"`;
+    case "update_comment":
+      return `${p.commentId}: "${truncate(p.body || "")}"`;
+    default:
+      return truncate(JSON.stringify(item.payload));
+  }
+}
+
+/**
+ * Parse an outbox item ID argument, exiting on invalid input
+ */
+function parseItemId(value: string): number {
+  const id = parseInt(value);
+  if (isNaN(id)) {
+    outputError(`Invalid outbox item ID '${value}'. Use the number shown by lb outbox list`);
+    process.exit(1);
+  }
+  return id;
+}
+
+/**
+ * Remove an item, along with any local placeholder it would have replaced
+ */
+function dropItem(item: OutboxItem): void {
+  removeOutboxItem(item.id);
+  if (item.operation === "create_comment" && typeof item.payload.localId === "string") {
+    deleteCachedComment(item.payload.localId);
+  }
+  if (item.operation === "create" && typeof item.payload.tempId === "string") {
+    deleteCachedIssue(item.payload.tempId);
+  }
+}
+
+/**
+ * When a backing-off item becomes due again, or null if it can go now
+ */
+function nextAttemptAt(item: OutboxItem): string | null {
+  if (item.dead_at || !item.last_attempt_at || isOutboxItemDue(item)) return null;
+  return new Date(
+    Date.parse(item.last_attempt_at) + getRetryDelayMs(item.retry_count)
+  ).toISOString();
+}
+
+/**
+ * Print one item with its attempts and last error
+ */
+function printItem(item: OutboxItem): void {
+  const attempts =
+    item.retry_count > 0
+      ? ` (${item.retry_count} failed attempt${item.retry_count === 1 ? "" : "s"})`
+      : "";
+  output(`#${item.id}  ${item.operation.padEnd(15)}  ${summarizePayload(item)}${attempts}`);
+  output(`      queued ${item.created_at}`);
+  if (item.last_error) {
+    output(`      last error: ${item.last_error}`);
+  }
+  const next = nextAttemptAt(item);
+  if (next) {
+    output(`      next attempt after ${next}`);
+  }
+}
+
+// Main outbox command
+export const outboxCommand = new Command("outbox").description(
+  "Inspect and repair pending changes queued for Linear"
+);
+
+// lb outbox list
+const listCommand = new Command("list")
+  .description("List pending, conflicting and dead-lettered changes with attempts and last error")
+  .option("-j, --json", "Output as JSON")
+  .action(async (options) => {
+    try {
+      const pending = getPendingOutboxItems();
+      const parked = getDeadOutboxItems();
+      const conflicts = parked.filter((item) => item.conflict_at);
+      const dead = parked.filter((item) => !item.conflict_at);
+
+      if (options.json) {
+        const formatted = [...pending, ...parked]
+          .sort((a, b) => a.id - b.id)
+          .map((item) => ({
+            id: item.id,
+            operation: item.operation,
+            state: item.conflict_at ? "conflict" : item.dead_at ? "dead" : "pending",
+            summary: summarizePayload(item),
+            payload: item.payload,
+            attempts: item.retry_count,
+            last_error: item.last_error || null,
+            created_at: item.created_at,
+            next_attempt_at: nextAttemptAt(item),
+            dead_at: item.dead_at || null,
+          }));
+        output(JSON.stringify(formatted, null, 2));
+        return;
+      }
+
+      if (pending.length === 0 && parked.length === 0) {
+        output("Outbox is empty.");
+        return;
+      }
+
+      if (pending.length > 0) {
+        output(`\n📤 Pending changes (${pending.length}):\n`);
+        pending.forEach(printItem);
+      }
+
+      if (conflicts.length > 0) {
+        output(`\n⚠ Conflicts with newer edits in Linear (${conflicts.length}):\n`);
+        conflicts.forEach(printItem);
+        output(
+          `\nUse lb outbox retry <item> --force to overwrite Linear's version, or lb outbox drop <item> to keep it.`
+        );
+      }
+
+      if (dead.length > 0) {
+        output(`\n⛔ Failed permanently, not retried (${dead.length}):\n`);
+        dead.forEach(printItem);
+        output(`\nUse lb outbox retry <item> to try again, or lb outbox drop <item> to discard.`);
+      }
+      output("");
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// lb outbox retry
+const retryCommand = new Command("retry")
+  .description("Retry a pending or dead-lettered change now (blocks on network)")
+  .argument("<item>", "Outbox item ID (from lb outbox list)")
+  .option("-f, --force", "Apply a conflicting update even though the issue changed in Linear")
+  .option("-j, --json", "Output as JSON")
+  .option("--team <team>", "Team key (overrides config)")
+  .action(async (value: string, options) => {
+    try {
+      if (isLocalOnly()) {
+        outputError("Local-only mode: nothing is synced to Linear");
+        process.exit(1);
+      }
+
+      let item = getOutboxItem(parseItemId(value));
+      if (!item) {
+        outputError(`Outbox item not found: ${value}`);
+        process.exit(1);
+      }
+
+      // Avoid processing the same item twice (e.g. creating an issue twice)
+      if (isWorkerRunning()) {
+        outputError(
+          "Background sync worker is running and will retry pending items. Try again once it exits."
+        );
+        process.exit(1);
+      }
+
+      const teamId = await getTeamId(options.team);
+
+      // A manual retry gives a dead-lettered item a fresh set of attempts
+      if (item.dead_at) {
+        reviveOutboxItem(item.id);
+      }
+      // Forcing drops the base version, so the update no longer checks for conflicts
+      if (options.force && item.payload.base) {
+        const payload = { ...item.payload };
+        delete payload.base;
+        updateOutboxItemPayload(item.id, payload);
+      }
+      item = getOutboxItem(item.id)!;
+
+      try {
+        await processOutboxItem(item, teamId);
+        removeOutboxItem(item.id);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        recordOutboxFailure(item, error);
+        if (options.json) {
+          output(JSON.stringify({ id: item.id, success: false, error: errorMsg }, null, 2));
+        } else {
+          outputError(`Retry of #${item.id} failed: ${errorMsg}`);
+        }
+        process.exit(1);
+      }
+
+      if (options.json) {
+        output(JSON.stringify({ id: item.id, success: true }, null, 2));
+      } else {
+        output(`Synced #${item.id}: ${item.operation} ${summarizePayload(item)}`);
+      }
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// lb outbox drop
+const dropCommand = new Command("drop")
+  .description("Discard a pending change without sending it")
+  .argument("<item>", "Outbox item ID (from lb outbox list)")
+  .option("-j, --json", "Output as JSON")
+  .action(async (value: string, options) => {
+    try {
+      const item = getOutboxItem(parseItemId(value));
+      if (!item) {
+        outputError(`Outbox item not found: ${value}`);
+        process.exit(1);
+      }
+
+      dropItem(item);
+
+      if (options.json) {
+        output(JSON.stringify({ dropped: item.id, operation: item.operation }, null, 2));
+      } else {
+        output(`Dropped #${item.id}: ${item.operation} ${summarizePayload(item)}`);
+      }
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// lb outbox clear
+const clearCommand = new Command("clear")
+  .description("Discard all pending and dead-lettered changes")
+  .option("-f, --force", "Skip confirmation")
+  .option("-j, --json", "Output as JSON")
+  .action(async (options) => {
+    try {
+      const items = [...getPendingOutboxItems(), ...getDeadOutboxItems()];
+
+      if (!options.force) {
+        if (options.json) {
+          const error = `Would discard ${items.length} pending change(s). Run with --force to confirm.`;
+          output(JSON.stringify({ cleared: 0, error }, null, 2));
+          process.exit(1);
+        }
+        output(`Will discard ${items.length} pending change(s). They will never reach Linear.`);
+        output(`Run with --force to confirm.`);
+        process.exit(0);
+      }
+
+      for (const item of items) {
+        dropItem(item);
+      }
+      const cleared = items.length;
+
+      if (options.json) {
+        output(JSON.stringify({ cleared }, null, 2));
+      } else {
+        output(`Cleared ${cleared} pending change(s).`);
+      }
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+outboxCommand.addCommand(listCommand);
+outboxCommand.addCommand(retryCommand);
+outboxCommand.addCommand(dropCommand);
+outboxCommand.addCommand(clearCommand);
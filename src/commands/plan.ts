@@ -0,0 +1,95 @@
+/**
+ * lb plan - Order open work into waves that can run in parallel
+ */
+
+import { Command } from "commander";
+import { ensureFresh } from "../utils/sync.js";
+import { getCachedIssue, getParentId } from "../utils/database.js";
+import { buildPlan } from "../utils/plan.js";
+import { output, outputError } from "../utils/output.js";
+import { isLocalOnly } from "../utils/config.js";
+
+export const planCommand = new Command("plan")
+  .description("Show open work in dependency order, as waves that can run in parallel")
+  .argument("[root]", "Only plan this issue's subtasks (and what blocks them)")
+  .option("-j, --json", "Output as JSON")
+  .option("--sync", "Force sync before planning")
+  .option("--team <team>", "Team key (overrides config)")
+  .action(async (rootId: string | undefined, options) => {
+    try {
+      // Try to ensure cache is fresh, but don't fail if offline
+      if (!isLocalOnly()) {
+        try {
+          await ensureFresh(options.team, options.sync);
+        } catch {
+          // Offline: plan from the cache as it is
+        }
+      }
+
+      let root;
+      if (rootId) {
+        root = getCachedIssue(rootId);
+        if (!root) {
+          outputError(`Issue not found: ${rootId}`);
+          process.exit(1);
+        }
+      }
+
+      const plan = buildPlan(root?.id);
+
+      if (options.json) {
+        const result = {
+          root: root?.id || null,
+          waves: plan.waves.map((wave) =>
+            wave.map(({ issue, after }) => ({
+              id: issue.id,
+              title: issue.title,
+              status: issue.status,
+              priority: issue.priority,
+              parent: getParentId(issue.id),
+              after,
+            }))
+          ),
+          critical_path: plan.criticalPath,
+          cyclic: plan.cyclic,
+        };
+        output(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      const count = plan.waves.reduce((sum, wave) => sum + wave.length, 0);
+      if (count === 0 && plan.cyclic.length === 0) {
+        output(root ? `No open work under ${root.id}.` : "No open work.");
+        return;
+      }
+
+      const scope = root ? ` for ${root.id}: ${root.title}` : "";
+      output(
+        `\n🗺️  Plan${scope} (${count} issue${count === 1 ? "" : "s"} in ${plan.waves.length} wave${plan.waves.length === 1 ? "" : "s"}):`
+      );
+
+      plan.waves.forEach((wave, index) => {
+        output(`\nWave ${index + 1}${wave.length > 1 ? ` (${wave.length} in parallel)` : ""}:`);
+        for (const { issue, after } of wave) {
+          const waiting = after.length > 0 ? ` (after ${after.join(", ")})` : "";
+          output(`  [P${issue.priority}] ${issue.id}: ${issue.title}${waiting}`);
+        }
+      });
+
+      if (plan.criticalPath.length > 1) {
+        output(
+          `\nCritical path (${plan.criticalPath.length} issues): ${plan.criticalPath.join(" → ")}`
+        );
+      }
+
+      if (plan.cyclic.length > 0) {
+        output(
+          `\n⚠ Not scheduled, stuck in a dependency cycle: ${plan.cyclic.join(", ")} (see lb dep check)`
+        );
+      }
+      output("");
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
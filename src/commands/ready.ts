@@ -14,13 +14,17 @@ import {
 import { formatReadyJson, output } from "../utils/output.js";
 import { getViewer } from "../utils/linear.js";
 import { isLocalOnly } from "../utils/config.js";
+import { formatDue, isOverdue, localDate } from "../utils/due-dates.js";
+import { filterIssues } from "../utils/issue-filters.js";
 
 export const readyCommand = new Command("ready")
   .description("List unblocked issues ready to work on")
   .option("-j, --json", "Output as JSON")
   .option("-a, --all", "Show all ready issues (not just mine)")
+  .option("--cycle <cycle>", "Only issues in this cycle: current, next, or a cycle number")
+  .option("--milestone <name>", "Only issues in this repo project milestone")
   .option("--sync", "Force sync before listing")
-  .option("--team <team>", "Team key (overrides config)")
+  .option("--team <teams>", "Only issues of these teams (comma-separated keys)")
   .action(async (options) => {
     try {
       // Try to ensure cache is fresh, but don't fail if offline
@@ -48,9 +52,22 @@ export const readyCommand = new Command("ready")
         readyIssues = readyIssues.filter((i) => !i.assignee || i.assignee === viewer.email);
       }
 
-      // Sort by priority, then updated_at
+      if (options.cycle || options.milestone || options.team) {
+        readyIssues = filterIssues(readyIssues, {
+          cycle: options.cycle,
+          milestone: options.milestone,
+          team: options.team,
+        });
+      }
+
+      // Overdue first (most overdue first within a priority), then priority, then updated_at
+      const today = localDate();
       readyIssues.sort((a, b) => {
+        const aOverdue = isOverdue(a, today);
+        const bOverdue = isOverdue(b, today);
+        if (aOverdue !== bOverdue) return aOverdue ? -1 : 1;
         if (a.priority !== b.priority) return a.priority - b.priority;
+        if (aOverdue && a.due_date !== b.due_date) return a.due_date! < b.due_date! ? -1 : 1;
         return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
       });
 
@@ -73,7 +90,9 @@ export const readyCommand = new Command("ready")
           const parentDep = deps.find((d) => d.type === "parent-child");
           const parentInfo = parentDep ? ` (↳ ${parentDep.depends_on_id})` : "";
 
-          output(`${index + 1}. [P${issue.priority}] ${issue.id}: ${issue.title}${parentInfo}`);
+          output(
+            `${index + 1}. [P${issue.priority}] ${issue.id}: ${issue.title}${parentInfo}${formatDue(issue, today)}`
+          );
         });
 
         // Show stale cache warning if sync failed or cache is old (skip in local-only mode)
@@ -0,0 +1,125 @@
+/**
+ * lb reopen - Reopen a closed issue
+ */
+
+import { Command } from "commander";
+import {
+  queueOutboxItem,
+  getCachedIssue,
+  cacheIssue,
+  cacheComment,
+  getCachedViewer,
+  generateLocalCommentId,
+  getParentId,
+} from "../utils/database.js";
+import { updateIssue, addComment, getTeamId, getIssueTeamId, fetchIssue } from "../utils/linear.js";
+import { formatIssueJson, formatIssueHuman, output, outputError } from "../utils/output.js";
+import { ensureOutboxProcessed } from "../utils/spawn-worker.js";
+import { propagateStatusToParent } from "../utils/background-sync-worker.js";
+import { isLocalOnly } from "../utils/config.js";
+import type { Issue } from "../types.js";
+
+/**
+ * Cached issue as it looks once reopened
+ */
+function reopenedCopy(issue: Issue): Issue {
+  return {
+    ...issue,
+    status: "open",
+    closed_at: undefined,
+    resolution: undefined,
+    duplicate_of: undefined,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Cache the reopen reason as a comment so it shows up before it reaches Linear
+ */
+function cacheReasonComment(issueId: string, body: string, localOnly: boolean): string {
+  const now = new Date().toISOString();
+  const id = generateLocalCommentId();
+  const viewer = localOnly ? null : getCachedViewer();
+  cacheComment({
+    id,
+    issue_id: issueId,
+    body,
+    author: viewer?.email,
+    created_at: now,
+    updated_at: now,
+  });
+  return id;
+}
+
+export const reopenCommand = new Command("reopen")
+  .description("Reopen a closed issue")
+  .argument("<id>", "Issue ID")
+  .option("-r, --reason <reason>", "Reopen reason (added as comment)")
+  .option("-j, --json", "Output as JSON")
+  .option("--sync", "Sync immediately (block on network)")
+  .option("--team <team>", "Team key (overrides config)")
+  .action(async (id: string, options) => {
+    try {
+      const localOnly = isLocalOnly();
+      const body = options.reason ? `Reopened: ${options.reason}` : undefined;
+
+      let issue = getCachedIssue(id);
+      if (!issue && !localOnly) {
+        issue = await fetchIssue(id);
+      }
+      if (!issue) {
+        outputError(`Issue not found: ${id}`);
+        process.exit(1);
+      }
+      if (issue.status !== "closed") {
+        outputError(`${id} is not closed (status: ${issue.status})`);
+        process.exit(1);
+      }
+
+      let reopened: Issue;
+
+      if (localOnly) {
+        // Local-only mode: update cache directly, including a parent closed with it
+        reopened = reopenedCopy(issue);
+        cacheIssue(reopened);
+        if (body) {
+          cacheReasonComment(id, body, true);
+        }
+
+        const parentId = getParentId(id);
+        const parent = parentId ? getCachedIssue(parentId) : null;
+        if (parent?.status === "closed") {
+          cacheIssue(reopenedCopy(parent));
+        }
+      } else if (options.sync) {
+        // Sync mode: reopen directly in Linear, along with a parent closed with it
+        const teamId = await getIssueTeamId(id, await getTeamId(options.team));
+        reopened = await updateIssue(id, { status: "open" }, teamId);
+        await propagateStatusToParent(id, "open", teamId);
+        if (body) {
+          await addComment(id, body);
+        }
+      } else {
+        // Queue mode: the worker moves the issue to an unstarted state and
+        // reopens a closed parent (see propagateStatusToParent)
+        queueOutboxItem("update", { issueId: id, status: "open" });
+        if (body) {
+          const localId = cacheReasonComment(id, body, false);
+          queueOutboxItem("create_comment", { issueId: id, body, localId });
+        }
+        ensureOutboxProcessed();
+
+        reopened = reopenedCopy(issue);
+        cacheIssue(reopened);
+      }
+
+      if (options.json) {
+        output(formatIssueJson(reopened));
+      } else {
+        output(formatIssueHuman(reopened));
+      }
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,107 @@
+/**
+ * lb search - Full-text search over cached issues
+ */
+
+import { Command } from "commander";
+import { ensureFresh } from "../utils/sync.js";
+import { searchIssues, getDependencies, getCacheInfo } from "../utils/database.js";
+import { output } from "../utils/output.js";
+import { isLocalOnly, getValidStatuses } from "../utils/config.js";
+
+export const searchCommand = new Command("search")
+  .description("Search issues by title and description")
+  .argument("<query>", "Words to search for (all must match, prefixes allowed)")
+  .option("-j, --json", "Output as JSON")
+  .option(
+    "-s, --status <status>",
+    "Filter by status: open, in_progress, closed (or a custom status)"
+  )
+  .option("-n, --limit <n>", "Maximum number of results", "20")
+  .option("--sync", "Force sync before searching")
+  .option("--team <team>", "Team key (overrides config)")
+  .action(async (query: string, options) => {
+    try {
+      if (options.status && !getValidStatuses().includes(options.status)) {
+        console.error(
+          `Invalid status '${options.status}'. Must be one of: ${getValidStatuses().join(", ")}`
+        );
+        process.exit(1);
+      }
+
+      const limit = parseInt(options.limit);
+      if (isNaN(limit) || limit < 1) {
+        console.error(`Invalid limit '${options.limit}'. Must be a positive number`);
+        process.exit(1);
+      }
+
+      // Try to ensure cache is fresh, but don't fail if offline
+      let syncFailed = false;
+      const localOnly = isLocalOnly();
+
+      if (!localOnly) {
+        try {
+          await ensureFresh(options.team, options.sync);
+        } catch {
+          syncFailed = true;
+        }
+      }
+
+      // Bold matches on a terminal, markdown-style emphasis otherwise
+      const markers = process.stdout.isTTY
+        ? { open: "\x1b[1m", close: "\x1b[0m" }
+        : { open: "**", close: "**" };
+
+      let results = searchIssues(query, options.json ? undefined : markers);
+      if (options.status) {
+        results = results.filter((r) => r.issue.status === options.status);
+      }
+      results = results.slice(0, limit);
+
+      if (options.json) {
+        const formatted = results.map((r) => {
+          const parentDep = getDependencies(r.issue.id).find((d) => d.type === "parent-child");
+          return {
+            ...r.issue,
+            parent: parentDep?.depends_on_id || null,
+            score: Math.round(r.score * 1000) / 1000,
+          };
+        });
+        output(JSON.stringify(formatted, null, 2));
+        return;
+      }
+
+      if (results.length === 0) {
+        output(`No issues match "${query}".`);
+        return;
+      }
+
+      output(`\n🔍 ${results.length} match${results.length === 1 ? "" : "es"} for "${query}":\n`);
+
+      for (const result of results) {
+        const { issue } = result;
+        const priorityName = ["crit", "high", "medi", "low", "back"][issue.priority] || "medi";
+        const status = issue.status.padEnd(12);
+        output(`${issue.id}  ${status}  ${priorityName}  ${result.title}`);
+        // Only show the description excerpt when the match was in the description
+        if (result.snippet.includes(markers.open)) {
+          output(`    ${result.snippet.replace(/\s+/g, " ")}`);
+        }
+      }
+
+      // Show stale cache warning if sync failed or cache is old (skip in local-only mode)
+      if (!localOnly) {
+        const cacheInfo = getCacheInfo();
+        if (syncFailed || cacheInfo.ageSeconds > 300) {
+          const ageMinutes = Math.floor(cacheInfo.ageSeconds / 60);
+          output(
+            `\n(cache ${ageMinutes}m old${syncFailed ? ", offline" : ""} - run lb sync to refresh)`
+          );
+        }
+      }
+
+      output("");
+    } catch (error) {
+      console.error("Error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
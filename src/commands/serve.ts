@@ -0,0 +1,129 @@
+/**
+ * lb serve - Long-running server that keeps the local cache current
+ */
+
+import { Command } from "commander";
+import { ensureFresh } from "../utils/sync.js";
+import { touchWebhookHeartbeat, clearWebhookHeartbeat } from "../utils/database.js";
+import { applyWebhookEvent, isFreshWebhook, verifyWebhookSignature } from "../utils/webhooks.js";
+import type { WebhookEvent, WebhookResult } from "../utils/webhooks.js";
+import { output, outputError } from "../utils/output.js";
+import { isLocalOnly, getWebhookSecret } from "../utils/config.js";
+
+// Refresh the heartbeat well within its TTL so other lb processes skip polling
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Handle one HTTP request to the webhook receiver
+ */
+async function handleWebhookRequest(req: Request, secret: string): Promise<Response> {
+  if (req.method === "GET") {
+    return new Response("lb serve: ok\n");
+  }
+  if (req.method !== "POST") {
+    return new Response("Method not allowed\n", { status: 405 });
+  }
+
+  const body = await req.text();
+  if (!verifyWebhookSignature(body, req.headers.get("linear-signature"), secret)) {
+    console.error("Rejected webhook: invalid signature");
+    return new Response("Invalid signature\n", { status: 401 });
+  }
+
+  let event: WebhookEvent;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    return new Response("Invalid JSON\n", { status: 400 });
+  }
+  if (!event || typeof event !== "object") {
+    return new Response("Invalid payload\n", { status: 422 });
+  }
+  if (!isFreshWebhook(event)) {
+    console.error("Rejected webhook: stale or missing webhookTimestamp");
+    return new Response("Stale webhook\n", { status: 401 });
+  }
+
+  // A signed payload we can't apply is answered 422, not 500, so Linear stops retrying it
+  let result: WebhookResult;
+  try {
+    result = applyWebhookEvent(event);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Rejected webhook: ${event.type} ${event.action}: ${reason}`);
+    return Response.json({ applied: false, reason: `malformed event: ${reason}` }, { status: 422 });
+  }
+  touchWebhookHeartbeat();
+
+  const target = result.id ? ` ${result.id}` : "";
+  output(
+    `${event.type} ${event.action}${target}: ${result.applied ? "applied" : `ignored (${result.reason})`}`
+  );
+  return Response.json(result, { status: result.reason === "malformed event" ? 422 : 200 });
+}
+
+export const serveCommand = new Command("serve")
+  .description("Run a local server that keeps the cache current")
+  .option("--webhooks", "Receive Linear webhooks and apply them to the cache")
+  .option("-p, --port <port>", "Port to listen on", "7890")
+  .option("--host <host>", "Address to listen on", "127.0.0.1")
+  .option("--team <team>", "Team key (overrides config)")
+  .action(async (options) => {
+    try {
+      if (!options.webhooks) {
+        outputError("Nothing to serve. Use lb serve --webhooks");
+        process.exit(1);
+      }
+
+      if (isLocalOnly()) {
+        outputError("Local-only mode: there are no Linear webhooks to receive");
+        process.exit(1);
+      }
+
+      const secret = getWebhookSecret();
+      if (!secret) {
+        outputError(
+          "A webhook signing secret is required. Set webhook_secret in .lb/config.jsonc or LINEAR_WEBHOOK_SECRET."
+        );
+        process.exit(1);
+      }
+
+      const port = parseInt(options.port);
+      if (isNaN(port) || port < 0 || port > 65535) {
+        outputError(`Invalid port '${options.port}'`);
+        process.exit(1);
+      }
+
+      // Webhooks only carry changes from now on, so start from a fresh cache
+      try {
+        await ensureFresh(options.team);
+      } catch (error) {
+        console.warn(
+          `Warning: initial sync failed (${error instanceof Error ? error.message : error}); applying webhooks to the existing cache`
+        );
+      }
+
+      const server = Bun.serve({
+        hostname: options.host,
+        port,
+        fetch: (req) => handleWebhookRequest(req, secret),
+      });
+
+      touchWebhookHeartbeat();
+      const heartbeat = setInterval(touchWebhookHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+      const shutdown = () => {
+        clearInterval(heartbeat);
+        clearWebhookHeartbeat();
+        server.stop();
+        process.exit(0);
+      };
+      process.on("SIGINT", shutdown);
+      process.on("SIGTERM", shutdown);
+
+      output(`Listening for Linear webhooks on http://${server.hostname}:${server.port}/`);
+    } catch (error) {
+      outputError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
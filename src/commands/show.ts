@@ -4,9 +4,22 @@
 
 import { Command } from "commander";
 import { ensureFresh } from "../utils/sync.js";
-import { getCachedIssue, getDependencies, getInverseDependencies } from "../utils/database.js";
+import {
+  getCachedIssue,
+  getCachedComments,
+  getDependencies,
+  getInverseDependencies,
+} from "../utils/database.js";
 import { fetchIssue } from "../utils/linear.js";
-import { formatShowJson, formatIssueHuman, output, outputError } from "../utils/output.js";
+import { getProgress } from "../utils/progress.js";
+import {
+  formatShowJson,
+  formatCommentHuman,
+  formatIssueHuman,
+  formatProgressHuman,
+  output,
+  outputError,
+} from "../utils/output.js";
 import { isLocalOnly } from "../utils/config.js";
 
 export const showCommand = new Command("show")
@@ -63,15 +76,20 @@ export const showCommand = new Command("show")
         .map((d) => d.issue_id);
       const related = [...new Set([...relatedOut, ...relatedIn])];
 
+      const comments = getCachedComments(issue.id);
+      const progress = children.length > 0 ? getProgress(issue.id) : null;
+
       // Output
       if (options.json) {
         const jsonOutput = {
           ...issue,
           parent: parent || null,
           children: children.length > 0 ? children : undefined,
+          progress: progress || undefined,
           blocks: blocks.length > 0 ? blocks : undefined,
           blocked_by: blockedBy.length > 0 ? blockedBy : undefined,
           related: related.length > 0 ? related : undefined,
+          comments: comments.length > 0 ? comments : undefined,
         };
         output(JSON.stringify([jsonOutput], null, 2));
       } else {
@@ -99,6 +117,9 @@ export const showCommand = new Command("show")
             const child = getCachedIssue(childId);
             output(`  ↳ ${childId}${child ? `: ${child.title} [P${child.priority}]` : ""}`);
           }
+          if (progress) {
+            output(`Progress: ${formatProgressHuman(progress)}`);
+          }
         }
 
         if (blocks.length > 0) {
@@ -136,6 +157,19 @@ export const showCommand = new Command("show")
             output(`  ↔ ${relId}${rel ? `: ${rel.title} [P${rel.priority}]` : ""}`);
           }
         }
+
+        if (comments.length > 0) {
+          output("");
+          output(`Comments (${comments.length}):`);
+          for (const comment of comments) {
+            output(
+              formatCommentHuman(comment)
+                .split("\n")
+                .map((line) => `  ${line}`)
+                .join("\n")
+            );
+          }
+        }
       }
     } catch (error) {
       console.error("Error:", error instanceof Error ? error.message : error);
@@ -5,28 +5,14 @@
 import { Command } from "commander";
 import { smartSync, scheduleBackgroundFullSyncIfNeeded } from "../utils/sync.js";
 import { output, outputError } from "../utils/output.js";
-import { getPendingOutboxItems } from "../utils/database.js";
+import { getPendingOutboxItems, getDeadOutboxItems } from "../utils/database.js";
+import { isNetworkError, isRateLimitError } from "../utils/outbox-retry.js";
+import { getRateLimitStatus } from "../utils/rate-limit.js";
 import { isLocalOnly } from "../utils/config.js";
 
-/**
- * Check if error is a network/connectivity issue
- */
-function isNetworkError(error: unknown): boolean {
-  if (!(error instanceof Error)) return false;
-  const msg = error.message.toLowerCase();
-  return (
-    msg.includes("fetch failed") ||
-    msg.includes("network") ||
-    msg.includes("econnrefused") ||
-    msg.includes("enotfound") ||
-    msg.includes("etimedout") ||
-    msg.includes("unable to connect")
-  );
-}
-
 export const syncCommand = new Command("sync")
   .description("Sync with Linear (push pending changes, pull latest)")
-  .option("--team <team>", "Team key (overrides config)")
+  .option("--team <teams>", "Also sync these team keys (comma-separated)")
   .option("--full", "Force full sync (re-fetch all issues, prune stale)")
   .option("-j, --json", "Output as JSON")
   .action(async (options) => {
@@ -38,6 +24,8 @@ export const syncCommand = new Command("sync")
       }
 
       const result = await smartSync(options.team, options.full);
+      const dead = getDeadOutboxItems();
+      const conflicts = dead.filter((item) => item.conflict_at);
 
       if (options.json) {
         output(
@@ -46,7 +34,11 @@ export const syncCommand = new Command("sync")
               pushed: result.pushed,
               pulled: result.pulled,
               pruned: result.pruned,
+              teams: result.teams,
               type: result.type,
+              dead_letter: dead.length - conflicts.length,
+              conflicts: conflicts.length,
+              rate_limit: getRateLimitStatus(),
             },
             null,
             2
@@ -57,10 +49,31 @@ export const syncCommand = new Command("sync")
           output(`Pushed: ${result.pushed.success} succeeded, ${result.pushed.failed} failed`);
         }
         const typeLabel = result.type === "full" ? " (full sync)" : "";
-        output(`Pulled: ${result.pulled} issues${typeLabel}`);
+        const teamLabel =
+          result.teams && result.teams.length > 1 ? ` from ${result.teams.join(", ")}` : "";
+        output(`Pulled: ${result.pulled} issues${teamLabel}${typeLabel}`);
         if (result.pruned && result.pruned > 0) {
           output(`Pruned: ${result.pruned} stale issues`);
         }
+        const requests = getRateLimitStatus().requests;
+        if (requests && requests.remaining <= requests.limit * 0.1) {
+          output(
+            `Rate limit: ${requests.remaining}/${requests.limit} requests left until ${new Date(requests.reset).toLocaleTimeString()}`
+          );
+        }
+        if (dead.length > conflicts.length) {
+          output(
+            `⚠ ${dead.length - conflicts.length} change(s) failed permanently and will not be retried (see lb outbox list)`
+          );
+        }
+        if (conflicts.length > 0) {
+          output(
+            `⚠ ${conflicts.length} update(s) not applied: the issue changed in Linear after they were queued (see lb outbox list)`
+          );
+          for (const item of conflicts) {
+            output(`  #${item.id} ${item.last_error}`);
+          }
+        }
       }
 
       // Schedule background full sync if needed (after incremental)
@@ -68,6 +81,11 @@ export const syncCommand = new Command("sync")
         scheduleBackgroundFullSyncIfNeeded();
       }
     } catch (error) {
+      if (isRateLimitError(error)) {
+        outputError(error instanceof Error ? error.message : String(error));
+        output("  Pending changes stay queued; run lb sync again after the reset");
+        process.exit(1);
+      }
       if (isNetworkError(error)) {
         const pending = getPendingOutboxItems();
         outputError("Offline: Unable to connect to Linear");
@@ -1,5 +1,5 @@
 /**
- * lb update - Update an issue
+ * lb update - Update one or more issues
  */
 
 import { Command } from "commander";
@@ -8,16 +8,29 @@ import {
   updateIssue,
   updateIssueParent,
   getTeamId,
+  getIssueTeamId,
   fetchIssue,
   getViewer,
   getUserByEmail,
   createRelation,
 } from "../utils/linear.js";
-import { formatIssueJson, formatIssueHuman, output, outputError } from "../utils/output.js";
+import {
+  formatIssueJson,
+  formatIssuesJson,
+  formatIssueHuman,
+  formatBulkSummary,
+  output,
+  outputError,
+} from "../utils/output.js";
 import { ensureOutboxProcessed } from "../utils/spawn-worker.js";
-import type { Priority, IssueStatus } from "../types.js";
-import { parsePriority } from "../types.js";
-import { isLocalOnly } from "../utils/config.js";
+import type { Issue, Priority, WorkflowStatus } from "../types.js";
+import { parseEstimate, parsePriority, parseStatus } from "../types.js";
+import { isLocalOnly, getWorkflowStateMapping } from "../utils/config.js";
+import { combineFilters, resolveTargetIds } from "../utils/issue-filters.js";
+import { assertNoDependencyCycle, dependencyEdges } from "../utils/dependency-graph.js";
+import { parseDueDate } from "../utils/due-dates.js";
+import { resolveCyclePerTeam } from "../utils/cycles.js";
+import { resolveMilestone } from "../utils/milestones.js";
 
 const VALID_DEP_TYPES = ["blocks", "blocked-by", "related"];
 
@@ -52,6 +65,17 @@ function parseDeps(deps: string): Array<{ type: string; targetId: string }> {
   });
 }
 
+/**
+ * Apply label additions/removals to an issue's current labels (removal is case-insensitive)
+ */
+function applyLabelChanges(current: string[] = [], add: string[], remove: string[]): string[] {
+  const removed = new Set(remove.map((l) => l.toLowerCase()));
+  const kept = current.filter((l) => !removed.has(l.toLowerCase()));
+  const existing = new Set(kept.map((l) => l.toLowerCase()));
+  const added = add.filter((l) => !existing.has(l.toLowerCase()) && !removed.has(l.toLowerCase()));
+  return [...new Set([...kept, ...added])].sort();
+}
+
 /**
  * Collect repeatable option values into an array
  */
@@ -59,45 +83,238 @@ function collect(value: string, previous: string[] = []): string[] {
   return previous.concat([value]);
 }
 
+interface UpdateContext {
+  updates: {
+    title?: string;
+    description?: string;
+    status?: WorkflowStatus;
+    priority?: Priority;
+    estimate?: number | null;
+    due_date?: string | null;
+    cycle?: number | null;
+    milestone?: string | null;
+    assigneeId?: string | null;
+  };
+  allDeps: Array<{ type: string; targetId: string }>;
+  addLabels: string[];
+  removeLabels: string[];
+  parent?: string;
+  assign?: string;
+  unassign?: boolean;
+  teamId?: string;
+}
+
+/**
+ * Cached issue with the field and label changes applied
+ */
+function updatedCopy(issue: Issue, ctx: UpdateContext): Issue {
+  const { estimate, due_date, cycle, milestone, ...fields } = ctx.updates;
+  const updated: Issue = { ...issue, ...fields, updated_at: new Date().toISOString() };
+  if (estimate !== undefined) {
+    updated.estimate = estimate ?? undefined;
+  }
+  if (due_date !== undefined) {
+    updated.due_date = due_date ?? undefined;
+  }
+  if (cycle !== undefined) {
+    updated.cycle = cycle ?? undefined;
+  }
+  if (milestone !== undefined) {
+    updated.milestone = milestone ?? undefined;
+  }
+  if (ctx.addLabels.length > 0 || ctx.removeLabels.length > 0) {
+    updated.labels = applyLabelChanges(issue.labels, ctx.addLabels, ctx.removeLabels);
+  }
+  return updated;
+}
+
+/**
+ * Update one issue in the cache (local-only), in Linear (--sync) or via the outbox.
+ * Returns the updated issue, or null if a queued issue isn't known locally.
+ */
+async function updateOne(id: string, ctx: UpdateContext): Promise<Issue | null> {
+  const { updates, allDeps, addLabels, removeLabels } = ctx;
+  const hasLabelChanges = addLabels.length > 0 || removeLabels.length > 0;
+
+  // Local-only mode: update cache directly
+  if (isLocalOnly()) {
+    const issue = getCachedIssue(id);
+    if (!issue) {
+      throw new Error(`Issue not found: ${id}`);
+    }
+
+    const updated = updatedCopy(issue, ctx);
+    cacheIssue(updated);
+    const now = updated.updated_at;
+
+    // Handle parent
+    if (ctx.parent) {
+      cacheDependency({
+        issue_id: id,
+        depends_on_id: ctx.parent,
+        type: "parent-child",
+        created_at: now,
+        created_by: "local",
+      });
+    }
+
+    // Handle deps
+    for (const dep of allDeps) {
+      if (dep.type === "blocked-by") {
+        cacheDependency({
+          issue_id: dep.targetId,
+          depends_on_id: id,
+          type: "blocks",
+          created_at: now,
+          created_by: "local",
+        });
+      } else {
+        const depType = dep.type === "blocks" ? "blocks" : "related";
+        cacheDependency({
+          issue_id: id,
+          depends_on_id: dep.targetId,
+          type: depType as "blocks" | "related",
+          created_at: now,
+          created_by: "local",
+        });
+      }
+    }
+    return updated;
+  }
+
+  if (ctx.teamId) {
+    // Sync mode: update directly in Linear
+    let issue = null;
+
+    if (Object.keys(updates).length > 0 || hasLabelChanges) {
+      issue = await updateIssue(
+        id,
+        { ...updates, labels: addLabels, removeLabels: removeLabels },
+        await getIssueTeamId(id, ctx.teamId)
+      );
+    } else {
+      issue = await fetchIssue(id);
+    }
+
+    // Handle parent
+    if (ctx.parent) {
+      try {
+        await updateIssueParent(id, ctx.parent);
+      } catch (error) {
+        outputError(
+          `Failed to set parent to ${ctx.parent}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    // Handle deps
+    for (const dep of allDeps) {
+      try {
+        if (dep.type === "blocked-by") {
+          // blocked-by is inverse: target blocks this issue
+          await createRelation(dep.targetId, id, "blocks");
+        } else {
+          const relationType = dep.type === "blocks" ? "blocks" : "related";
+          await createRelation(id, dep.targetId, relationType);
+        }
+      } catch (error) {
+        outputError(
+          `Failed to create ${dep.type} relation to ${dep.targetId}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+    return issue;
+  }
+
+  // Queue mode: add to outbox (the caller spawns the background worker)
+  // Convert allDeps to string format for queue
+  const depsString = allDeps.map((d) => `${d.type}:${d.targetId}`).join(",");
+
+  // For queue mode, pass flags for worker to resolve
+  const payload: Record<string, unknown> = {
+    issueId: id,
+    ...updates,
+  };
+  // Pass assign/unassign flags for worker to resolve
+  if (ctx.assign) payload.assign = ctx.assign;
+  if (ctx.unassign) payload.unassign = true;
+  if (depsString) payload.deps = depsString;
+  if (ctx.parent) payload.parentId = ctx.parent;
+  if (addLabels.length > 0) payload.labels = addLabels;
+  if (removeLabels.length > 0) payload.removeLabels = removeLabels;
+  // Remove assigneeId from payload - worker will resolve it
+  delete payload.assigneeId;
+
+  queueOutboxItem("update", payload);
+
+  // Apply the updates to the cache so they show before the worker syncs them
+  let issue = getCachedIssue(id);
+  if (!issue) {
+    issue = await fetchIssue(id);
+  }
+  if (!issue) return null;
+  const updated = updatedCopy(issue, ctx);
+  cacheIssue(updated);
+  return updated;
+}
+
 export const updateCommand = new Command("update")
-  .description("Update an issue")
-  .argument("<id>", "Issue ID")
+  .description("Update issues by ID or by filter")
+  .argument("[ids...]", "Issue IDs (or select issues with filters)")
   .option("--title <title>", "New title")
   .option("-d, --description <desc>", "New description")
-  .option("-s, --status <status>", "Status: open, in_progress, closed")
+  .option("-s, --status <status>", "Status: open, in_progress, closed (or a custom status)")
   .option("-p, --priority <priority>", "Priority: urgent, high, medium, low, backlog (or 0-4)")
+  .option("-e, --estimate <points>", "Estimate in story points")
+  .option("--clear-estimate", "Remove the estimate")
+  .option("--due <date>", "Due date: YYYY-MM-DD, today, tomorrow, friday, +3d, +2w")
+  .option("--clear-due", "Remove the due date")
+  .option("--cycle <cycle>", "Move to cycle: current, next, or a cycle number")
+  .option("--clear-cycle", "Remove from its cycle")
+  .option("--milestone <name>", "Move to a repo project milestone")
+  .option("--clear-milestone", "Remove from its milestone")
   .option("--assign <email>", "Assign to user (email or 'me')")
   .option("--unassign", "Remove assignee")
   .option("--parent <id>", "Set parent issue (makes this a subtask)")
   .option("--blocks <id>", "This issue blocks ID (repeatable)", collect)
   .option("--blocked-by <id>", "This issue is blocked by ID (repeatable)", collect)
   .option("--related <id>", "Related issue ID (repeatable)", collect)
+  .option("-l, --label <name>", "Add label (repeatable)", collect)
+  .option("--remove-label <name>", "Remove label (repeatable)", collect)
+  .option("--filter-status <status>", "Update issues with this status")
+  .option("--filter-priority <priority>", "Update issues with this priority")
+  .option("--filter-type <type>", "Update issues of this type")
+  .option("--filter-label <name>", "Update issues with this label (repeatable)", collect)
+  .option("--filter-parent <id>", "Update subtasks of ID")
+  .option("--filter-cycle <cycle>", "Update issues in this cycle: current, next, or a cycle number")
+  .option("--filter-milestone <name>", "Update issues in this milestone")
+  .option("--team <teams>", "Update issues of these teams (comma-separated keys)")
+  .option(
+    "-w, --where <filter>",
+    "Update issues matching key=value (status, priority, type, label, parent, cycle, milestone, team; repeatable)",
+    collect
+  )
+  .option("--dry-run", "Show what would be updated without changing anything")
   .option("-j, --json", "Output as JSON")
   .option("--sync", "Sync immediately (block on network)")
-  .option("--team <team>", "Team key (overrides config)")
-  .action(async (id: string, options) => {
+  .action(async (ids: string[], options) => {
     try {
       // Validate inputs
-      const updates: {
-        title?: string;
-        description?: string;
-        status?: IssueStatus;
-        priority?: Priority;
-        assigneeId?: string | null;
-      } = {};
+      const updates: UpdateContext["updates"] = {};
 
       if (options.title) updates.title = options.title;
       if (options.description !== undefined) updates.description = options.description;
 
       if (options.status) {
-        const validStatuses = ["open", "in_progress", "closed"];
-        if (!validStatuses.includes(options.status)) {
-          outputError(
-            `Invalid status '${options.status}'. Must be one of: ${validStatuses.join(", ")}`
-          );
+        const { status, error: statusError } = parseStatus(
+          options.status,
+          getWorkflowStateMapping()
+        );
+        if (statusError || !status) {
+          outputError(statusError || "Invalid status");
           process.exit(1);
         }
-        updates.status = options.status as IssueStatus;
+        updates.status = status;
       }
 
       if (options.priority !== undefined) {
@@ -109,6 +326,42 @@ export const updateCommand = new Command("update")
         updates.priority = priority;
       }
 
+      if (options.clearEstimate) {
+        updates.estimate = null;
+      } else if (options.estimate !== undefined) {
+        const { estimate, error: estimateError } = parseEstimate(options.estimate);
+        if (estimateError) {
+          outputError(estimateError);
+          process.exit(1);
+        }
+        updates.estimate = estimate;
+      }
+
+      if (options.clearDue) {
+        updates.due_date = null;
+      } else if (options.due !== undefined) {
+        const { date, error: dueError } = parseDueDate(options.due);
+        if (dueError) {
+          outputError(dueError);
+          process.exit(1);
+        }
+        updates.due_date = date;
+      }
+
+      // Cycle numbers are per team: resolved once the target issues are known
+      let cycleFor: ((team?: string) => number | undefined) | undefined;
+      if (options.clearCycle) {
+        updates.cycle = null;
+      } else if (options.cycle !== undefined) {
+        cycleFor = resolveCyclePerTeam(options.cycle);
+      }
+
+      if (options.clearMilestone) {
+        updates.milestone = null;
+      } else if (options.milestone !== undefined) {
+        updates.milestone = (await resolveMilestone(options.milestone)).name;
+      }
+
       // Handle assignee
       if (options.unassign) {
         updates.assigneeId = null;
@@ -143,151 +396,106 @@ export const updateCommand = new Command("update")
         allDeps.push(...parseDeps(options.deps));
       }
 
-      if (Object.keys(updates).length === 0 && allDeps.length === 0 && !options.parent) {
+      const addLabels: string[] = options.label || [];
+      const removeLabels: string[] = options.removeLabel || [];
+      const hasLabelChanges = addLabels.length > 0 || removeLabels.length > 0;
+
+      if (
+        Object.keys(updates).length === 0 &&
+        !cycleFor &&
+        allDeps.length === 0 &&
+        !options.parent &&
+        !hasLabelChanges
+      ) {
         outputError("No updates specified");
         process.exit(1);
       }
 
-      // Local-only mode: update cache directly
-      if (isLocalOnly()) {
-        const issue = getCachedIssue(id);
-        if (!issue) {
-          outputError(`Issue not found: ${id}`);
+      const localOnly = isLocalOnly();
+      const filters = combineFilters(
+        {
+          status: options.filterStatus,
+          priority: options.filterPriority,
+          type: options.filterType,
+          label: options.filterLabel,
+          parent: options.filterParent,
+          cycle: options.filterCycle,
+          milestone: options.filterMilestone,
+          team: options.team,
+        },
+        options.where
+      );
+      const targets = await resolveTargetIds(ids, filters, options.team);
+      if (cycleFor) {
+        const numbers = new Set(targets.map((id) => cycleFor(getCachedIssue(id)?.team)));
+        if (numbers.has(undefined)) {
+          outputError(`Cycle not found in every team of these issues: ${options.cycle}`);
           process.exit(1);
         }
-
-        const now = new Date().toISOString();
-        const updated = { ...issue, ...updates, updated_at: now };
-        cacheIssue(updated);
-
-        // Handle parent
-        if (options.parent) {
-          cacheDependency({
-            issue_id: id,
-            depends_on_id: options.parent,
-            type: "parent-child",
-            created_at: now,
-            created_by: "local",
-          });
+        if (numbers.size > 1) {
+          outputError(
+            `Cycle ${options.cycle} is a different cycle in each team of these issues; update one team at a time`
+          );
+          process.exit(1);
         }
+        updates.cycle = [...numbers][0];
+      }
+      const ctx: UpdateContext = {
+        updates,
+        allDeps,
+        addLabels,
+        removeLabels,
+        parent: options.parent,
+        assign: options.assign,
+        unassign: options.unassign,
+      };
 
-        // Handle deps
-        for (const dep of allDeps) {
-          if (dep.type === "blocked-by") {
-            cacheDependency({
-              issue_id: dep.targetId,
-              depends_on_id: id,
-              type: "blocks",
-              created_at: now,
-              created_by: "local",
-            });
-          } else {
-            const depType = dep.type === "blocks" ? "blocks" : "related";
-            cacheDependency({
-              issue_id: id,
-              depends_on_id: dep.targetId,
-              type: depType as "blocks" | "related",
-              created_at: now,
-              created_by: "local",
-            });
-          }
-        }
+      // Refuse cycles before changing anything
+      for (const id of targets) {
+        assertNoDependencyCycle(dependencyEdges(id, allDeps, options.parent));
+      }
 
+      if (options.dryRun) {
+        const preview = targets
+          .map((id) => getCachedIssue(id))
+          .filter((i): i is Issue => !!i)
+          .map((i) => updatedCopy(i, ctx));
         if (options.json) {
-          output(formatIssueJson(updated));
+          output(formatIssuesJson(preview));
         } else {
-          output(formatIssueHuman(updated));
+          output(formatBulkSummary("update", preview, true));
         }
         return;
       }
 
-      if (options.sync) {
-        // Sync mode: update directly in Linear
-        const teamId = await getTeamId(options.team);
-        let issue = null;
-
-        if (Object.keys(updates).length > 0) {
-          issue = await updateIssue(id, updates, teamId);
-        } else {
-          issue = await fetchIssue(id);
-        }
-
-        // Handle parent
-        if (options.parent) {
-          try {
-            await updateIssueParent(id, options.parent);
-          } catch (error) {
-            outputError(
-              `Failed to set parent to ${options.parent}: ${error instanceof Error ? error.message : error}`
-            );
-          }
-        }
-
-        // Handle deps
-        if (allDeps.length > 0) {
-          for (const dep of allDeps) {
-            try {
-              if (dep.type === "blocked-by") {
-                // blocked-by is inverse: target blocks this issue
-                await createRelation(dep.targetId, id, "blocks");
-              } else {
-                const relationType = dep.type === "blocks" ? "blocks" : "related";
-                await createRelation(id, dep.targetId, relationType);
-              }
-            } catch (error) {
-              outputError(
-                `Failed to create ${dep.type} relation to ${dep.targetId}: ${error instanceof Error ? error.message : error}`
-              );
-            }
-          }
-        }
-
-        if (issue) {
-          if (options.json) {
-            output(formatIssueJson(issue));
-          } else {
-            output(formatIssueHuman(issue));
-          }
-        }
-      } else {
-        // Queue mode: add to outbox and spawn background worker
-        // Convert allDeps to string format for queue
-        const depsString = allDeps.map((d) => `${d.type}:${d.targetId}`).join(",");
-
-        // For queue mode, pass flags for worker to resolve
-        const payload: Record<string, unknown> = {
-          issueId: id,
-          ...updates,
-        };
-        // Pass assign/unassign flags for worker to resolve
-        if (options.assign) payload.assign = options.assign;
-        if (options.unassign) payload.unassign = true;
-        if (depsString) payload.deps = depsString;
-        if (options.parent) payload.parentId = options.parent;
-        // Remove assigneeId from payload - worker will resolve it
-        delete payload.assigneeId;
-
-        queueOutboxItem("update", payload);
+      if (options.sync && !localOnly && targets.length > 0) {
+        ctx.teamId = await getTeamId();
+      }
 
+      // Each issue is updated (or queued) separately
+      const updated: Issue[] = [];
+      for (const id of targets) {
+        const issue = await updateOne(id, ctx);
+        if (issue) updated.push(issue);
+      }
+      if (!localOnly && !options.sync && targets.length > 0) {
         // Spawn background worker if not already running
         ensureOutboxProcessed();
+      }
 
-        // Return cached issue with updates applied
-        let issue = getCachedIssue(id);
-        if (!issue) {
-          issue = await fetchIssue(id);
-        }
-
-        if (issue) {
-          const updated = { ...issue, ...updates, updated_at: new Date().toISOString() };
-          if (options.json) {
-            output(formatIssueJson(updated));
-          } else {
-            output(formatIssueHuman(updated));
-          }
+      // A single explicit ID keeps the plain single-issue output
+      if (ids.length === 1) {
+        if (updated.length === 0) {
+          if (!options.sync) output(`Updated: ${ids[0]}`);
+        } else if (options.json) {
+          output(formatIssueJson(updated[0]));
         } else {
-          output(`Updated: ${id}`);
+          output(formatIssueHuman(updated[0]));
         }
+      } else if (options.json) {
+        output(formatIssuesJson(updated));
+      } else {
+        output(formatBulkSummary("update", updated, false));
       }
     } catch (error) {
       console.error("Error:", error instanceof Error ? error.message : error);
@@ -6,12 +6,25 @@
 // Issue status - matches bd semantics, maps to Linear workflow states
 export type IssueStatus = "open" | "in_progress" | "closed";
 
+// Status added with workflow_states in config (e.g. in_review). Only parseStatus
+// and the workflow state mapping produce one, so it is always a configured status.
+export type CustomStatus = string & { readonly __customStatus: true };
+
+// Status an issue can be in: built-in or custom
+export type WorkflowStatus = IssueStatus | CustomStatus;
+
+// Statuses that exist without any workflow_states config
+export const BUILTIN_STATUSES: IssueStatus[] = ["open", "in_progress", "closed"];
+
 // Issue type - matches bd
 export type IssueType = "bug" | "feature" | "task" | "epic" | "chore";
 
 // Priority - matches bd (0-4, 0 is highest)
 export type Priority = 0 | 1 | 2 | 3 | 4;
 
+// How a closed issue was resolved (Linear: completed vs canceled state)
+export type Resolution = "done" | "wont_fix" | "duplicate";
+
 // Dependency types - matches bd
 export type DependencyType = "blocks" | "related" | "parent-child" | "discovered-from";
 
@@ -34,14 +47,30 @@ export interface Issue {
   id: string;
   title: string;
   description?: string;
-  status: IssueStatus;
+  status: WorkflowStatus;
   priority: Priority;
   issue_type?: IssueType; // Optional - only set when use_types is enabled
   created_at: string;
   updated_at: string;
   closed_at?: string;
+  // Only set on closed issues
+  resolution?: Resolution;
+  // Canonical issue when resolution is "duplicate"
+  duplicate_of?: string;
+  // Story points (omit if unestimated)
+  estimate?: number;
+  // YYYY-MM-DD (omit if none)
+  due_date?: string;
+  // Linear cycle (sprint) number (omit if not in a cycle)
+  cycle?: number;
+  // Repo project milestone name (omit if none)
+  milestone?: string;
+  // Linear team key (omit for local and queued issues)
+  team?: string;
   // Assignee email (omit if unassigned for bd-style terse output)
   assignee?: string;
+  // Linear label names (omit if none; excludes the repo scoping label)
+  labels?: string[];
   // Optional fields for list output
   dependency_count?: number;
   dependent_count?: number;
@@ -49,6 +78,60 @@ export interface Issue {
   dependencies?: Dependency[];
 }
 
+/**
+ * Comment on an issue
+ */
+export interface Comment {
+  id: string;
+  issue_id: string;
+  body: string;
+  // Author email (omit if unknown, e.g. local-only or still queued)
+  author?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Linear cycle (sprint), cached per team
+ */
+export interface Cycle {
+  id: string;
+  team_id: string;
+  // Team key (cycle numbers are per team)
+  team?: string;
+  number: number;
+  // Linear only has a name if someone set one
+  name?: string;
+  starts_at: string;
+  ends_at: string;
+  completed_at?: string;
+}
+
+/**
+ * Milestone of the repo project (project scoping)
+ */
+export interface Milestone {
+  id: string;
+  project_id: string;
+  name: string;
+  // YYYY-MM-DD
+  target_date?: string;
+  sort_order: number;
+}
+
+/**
+ * Progress of a parent issue, counted over all its descendants
+ */
+export interface Progress {
+  total: number;
+  closed: number;
+  // closed / total, rounded to a whole percent
+  percent: number;
+  by_status: Record<string, number>;
+  // Story points over estimated descendants (omitted if none are estimated)
+  points?: { total: number; closed: number };
+}
+
 /**
  * Linear-specific types for internal use
  */
@@ -58,6 +141,19 @@ export interface LinearIssue {
   title: string;
   description?: string | null;
   priority: number;
+  estimate?: number | null;
+  dueDate?: string | null;
+  cycle?: {
+    id: string;
+    number: number;
+  } | null;
+  projectMilestone?: {
+    id: string;
+    name: string;
+  } | null;
+  team?: {
+    key: string;
+  } | null;
   createdAt: string;
   updatedAt: string;
   completedAt?: string | null;
@@ -108,6 +204,24 @@ export interface LinearIssue {
       };
     }>;
   };
+  comments?: {
+    nodes: LinearComment[];
+  };
+}
+
+/**
+ * Linear comment shape (as returned by the API)
+ */
+export interface LinearComment {
+  id: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+  } | null;
 }
 
 /**
@@ -115,13 +229,47 @@ export interface LinearIssue {
  */
 export interface OutboxItem {
   id: number;
-  operation: "create" | "update" | "close" | "delete" | "create_relation" | "delete_relation";
+  operation:
+    | "create"
+    | "update"
+    | "close"
+    | "delete"
+    | "create_relation"
+    | "delete_relation"
+    | "create_comment"
+    | "update_comment";
   payload: Record<string, unknown>;
   created_at: string;
   retry_count: number;
   last_error?: string;
+  last_attempt_at?: string;
+  // Set when the item failed permanently and is no longer retried
+  dead_at?: string;
+  // Set (along with dead_at) when an update was parked because the issue changed in Linear
+  conflict_at?: string;
 }
 
+/**
+ * Issue fields checked for conflicting Linear edits before a queued update is applied
+ */
+export const UPDATE_CONFLICT_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "estimate",
+  "due_date",
+  "cycle",
+  "milestone",
+] as const;
+
+/**
+ * Cached state a queued update was made against (payload.base)
+ */
+export type UpdateBase = {
+  updated_at: string;
+} & Partial<Record<(typeof UPDATE_CONFLICT_FIELDS)[number], string | number | null>>;
+
 /**
  * Config for lb-cli
  */
@@ -137,22 +285,94 @@ export interface Config {
 
 /**
  * Map bd status to Linear workflow state type
+ * Custom statuses are work in progress, so they live among the started states
  */
-export function statusToLinearState(status: IssueStatus): string {
+export function statusToLinearState(status: WorkflowStatus): string {
   switch (status) {
     case "open":
       return "unstarted";
-    case "in_progress":
-      return "started";
     case "closed":
       return "completed";
+    default:
+      return "started";
+  }
+}
+
+/**
+ * Check if a status is one of the built-in ones
+ */
+export function isBuiltinStatus(status: string): status is IssueStatus {
+  return (BUILTIN_STATUSES as string[]).includes(status);
+}
+
+/**
+ * Statuses valid under a workflow_states mapping: the built-in ones plus each mapped status
+ */
+export function statusesForMapping(mapping: Record<string, string>): WorkflowStatus[] {
+  return [...new Set([...BUILTIN_STATUSES, ...(Object.values(mapping) as CustomStatus[])])];
+}
+
+/**
+ * Parse a status; custom statuses are only valid if workflow_states maps a state to them
+ * Returns { status, error } - check error first
+ */
+export function parseStatus(
+  value: string,
+  mapping: Record<string, string> = {}
+): { status?: WorkflowStatus; error?: string } {
+  const valid = statusesForMapping(mapping);
+  const status = valid.find((s) => s === value);
+  if (status) {
+    return { status };
   }
+  return { error: `Invalid status '${value}'. Must be one of: ${valid.join(", ")}` };
+}
+
+/**
+ * Look up the status a workflow state name is mapped to (names match case-insensitively)
+ */
+export function statusForStateName(
+  mapping: Record<string, string>,
+  stateName: string
+): WorkflowStatus | undefined {
+  const key = Object.keys(mapping).find((name) => name.toLowerCase() === stateName.toLowerCase());
+  return key ? (mapping[key] as WorkflowStatus) : undefined;
 }
 
 /**
- * Map Linear workflow state type to bd status
+ * Resolution implied by a Linear workflow state type (undefined if not closed)
  */
-export function linearStateToStatus(stateType: string): IssueStatus {
+export function linearStateToResolution(stateType: string): Resolution | undefined {
+  switch (stateType) {
+    case "completed":
+      return "done";
+    case "canceled":
+      return "wont_fix";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Map Linear workflow state to bd status
+ * Mapped state names win, except that completed/canceled states are always closed
+ */
+export function linearStateToStatus(
+  stateType: string,
+  stateName?: string,
+  mapping: Record<string, string> = {}
+): WorkflowStatus {
+  const mapped = stateName ? statusForStateName(mapping, stateName) : undefined;
+  if (mapped && stateType !== "completed" && stateType !== "canceled") {
+    return mapped;
+  }
+  return stateTypeToStatus(stateType);
+}
+
+/**
+ * Built-in status for a Linear workflow state type
+ */
+export function stateTypeToStatus(stateType: string): IssueStatus {
   switch (stateType) {
     case "started":
       return "in_progress";
@@ -258,3 +478,26 @@ export function parsePriority(value: string): { priority?: Priority; error?: str
     error: `Invalid priority '${value}'. Must be 0-4 or: urgent, high, medium, low, backlog`,
   };
 }
+
+/**
+ * Parse a story point estimate (a whole number, as Linear stores it)
+ * Returns { estimate, error } - check error first
+ */
+export function parseEstimate(value: string): { estimate?: number; error?: string } {
+  if (!/^\d+$/.test(value.trim())) {
+    return { error: `Invalid estimate '${value}'. Must be a whole number of points` };
+  }
+  return { estimate: parseInt(value) };
+}
+
+/**
+ * Parse a close resolution (accepts wont-fix and wont_fix)
+ * Returns { resolution, error } - check error first
+ */
+export function parseResolution(value: string): { resolution?: Resolution; error?: string } {
+  const name = value.toLowerCase().replace(/-/g, "_");
+  if (name === "done" || name === "wont_fix" || name === "duplicate") {
+    return { resolution: name };
+  }
+  return { error: `Invalid resolution '${value}'. Must be one of: done, wont-fix, duplicate` };
+}
@@ -10,6 +10,10 @@ export interface HttpsLbCliDevConfigSchemaJson {
    * Default Linear team key (e.g., 'LIN'). Used when no team is specified in commands.
    */
   team_key?: string;
+  /**
+   * Linear team keys whose issues are synced into this repo's cache (e.g., ["PLAT", "APP"]). lb list, lb ready and lb blocked --team filter across them. New issues go to team_key, or the first of these teams.
+   */
+  teams?: string[];
   /**
    * Name used for repo: label in Linear. Overrides auto-detection from git remote or directory name.
    */
@@ -30,4 +34,22 @@ export interface HttpsLbCliDevConfigSchemaJson {
    * How to scope issues to this repo in Linear. 'label' uses repo:name labels (default, backward compatible). 'project' uses Linear Projects. 'both' uses both for filtering/assignment.
    */
   repo_scope?: "label" | "project" | "both";
+  /**
+   * How many times the background worker tries to push a queued change before moving it to the dead-letter list (see lb outbox list).
+   */
+  outbox_max_attempts?: number;
+  /**
+   * Signing secret of the Linear webhook delivering to lb serve --webhooks. Requests without a valid Linear-Signature are rejected. Can also be set via LINEAR_WEBHOOK_SECRET.
+   */
+  webhook_secret?: string;
+  /**
+   * Treat .lb/issues.jsonl as a sync source: edits that arrive in it (e.g. via git pull) are applied to the cache, and queued for Linear unless local_only is set. Changes that conflict with local edits are reported and not applied; the file's version is saved to .lb/issues.conflicts.jsonl.
+   */
+  jsonl_sync?: boolean;
+  /**
+   * Map Linear workflow state names to lb statuses, e.g. { "In Review": "in_review", "QA": "in_review" }. Values can be open, in_progress, closed or a custom status, which lb update --status and lb list --status then accept. Custom statuses count as work in progress. Completed and canceled states are always closed.
+   */
+  workflow_states?: {
+    [k: string]: string;
+  };
 }
@@ -2,7 +2,10 @@
  * Background sync worker - processes outbox queue and periodic full syncs
  * Should be spawned as a detached process by write commands
  *
- * Polls outbox every 500ms, exits after 5s of inactivity.
+ * Polls outbox every 500ms, exits after 5s with nothing left to push.
+ * Failed items are retried with exponential backoff (the worker stays up until
+ * they're due); permanent failures and items out of attempts are dead-lettered
+ * (see outbox-retry.ts).
  * Parent can touch PID file to signal "stay alive" for new work.
  * Also runs full sync if needsFullSync() is true.
  */
@@ -10,16 +13,23 @@
 import { writePidFile, removePidFile, getPidFileMtime } from "./pid-manager.js";
 import {
   getPendingOutboxItems,
+  getOutboxItem,
   removeOutboxItem,
-  updateOutboxItemError,
+  remapTempId,
+  rebaseQueuedUpdates,
   getParentId,
   getChildIds,
   getCachedIssue,
   needsFullSync,
   incrementSyncRunCount,
+  deleteCachedComment,
+  pruneOtherTeams,
 } from "./database.js";
 import {
   getTeamId,
+  getSyncTeams,
+  getIssueTeamId,
+  getStatusStateType,
   createIssue,
   updateIssue,
   updateIssueParent,
@@ -29,21 +39,57 @@ import {
   deleteRelation,
   fetchIssues,
   fetchAllIssuesPaginated,
+  fetchCycles,
+  fetchMilestones,
+  addComment,
+  updateComment,
 } from "./linear.js";
 import { exportToJsonl } from "./jsonl.js";
-import type { Issue, IssueType, Priority } from "../types.js";
+import {
+  assertTempIdsCreated,
+  isOutboxItemDue,
+  OutboxWaitError,
+  recordOutboxFailure,
+} from "./outbox-retry.js";
+import { assertNoUpdateConflict } from "./outbox-conflicts.js";
+import { isBuiltinStatus, stateTypeToStatus } from "../types.js";
+import type {
+  Issue,
+  IssueStatus,
+  IssueType,
+  OutboxItem,
+  Priority,
+  Resolution,
+  WorkflowStatus,
+} from "../types.js";
 
 const IDLE_TIMEOUT_MS = 5000;
 const POLL_INTERVAL_MS = 500;
 
+/**
+ * Built-in status a status counts as for propagation
+ * Custom statuses go by the type of their Linear state (started, completed, unstarted)
+ */
+async function propagationStatus(status: WorkflowStatus, teamId: string): Promise<IssueStatus> {
+  if (isBuiltinStatus(status)) return status;
+  try {
+    return stateTypeToStatus(await getStatusStateType(teamId, status));
+  } catch {
+    // Best effort: custom statuses are work in progress unless mapped otherwise
+    return "in_progress";
+  }
+}
+
 /**
  * Propagate status changes to parent issue.
  * - When child goes in_progress: set parent to in_progress (if open)
  * - When child closes: if no other children in_progress, set parent to open
+ * - When child reopens: a closed parent has unfinished work again, so reopen it
+ * Custom statuses (child, siblings and parent) count as the built-in status of their state type.
  */
 async function propagateStatusToParent(
   issueId: string,
-  newStatus: string,
+  newStatus: WorkflowStatus,
   teamId: string
 ): Promise<void> {
   const parentId = getParentId(issueId);
@@ -52,25 +98,45 @@ async function propagateStatusToParent(
   const parent = getCachedIssue(parentId);
   if (!parent) return;
 
-  if (newStatus === "in_progress") {
+  const childStatus = await propagationStatus(newStatus, teamId);
+  // The parent may belong to another team
+  teamId = await getIssueTeamId(parentId, teamId);
+  const parentStatus = await propagationStatus(parent.status, teamId);
+
+  if (childStatus === "in_progress") {
     // Child started work - parent should also be in_progress
-    if (parent.status === "open") {
+    if (parentStatus === "open") {
       try {
         await updateIssue(parentId, { status: "in_progress" }, teamId);
       } catch {
         // Ignore - best effort
       }
     }
-  } else if (newStatus === "closed") {
+  } else if (childStatus === "closed") {
     // Child finished - check if any siblings still in_progress
-    const siblingIds = getChildIds(parentId);
-    const hasActiveWork = siblingIds.some((sibId) => {
-      if (sibId === issueId) return false; // Skip self
+    let hasActiveWork = false;
+    for (const sibId of getChildIds(parentId)) {
+      if (sibId === issueId) continue; // Skip self
       const sib = getCachedIssue(sibId);
-      return sib?.status === "in_progress";
-    });
+      if (
+        sib &&
+        (await propagationStatus(sib.status, await getIssueTeamId(sibId, teamId))) === "in_progress"
+      ) {
+        hasActiveWork = true;
+        break;
+      }
+    }
 
-    if (!hasActiveWork && parent.status === "in_progress") {
+    if (!hasActiveWork && parentStatus === "in_progress") {
+      try {
+        await updateIssue(parentId, { status: "open" }, teamId);
+      } catch {
+        // Ignore - best effort
+      }
+    }
+  } else if (childStatus === "open") {
+    // Child reopened - parent can't stay closed
+    if (parentStatus === "closed") {
       try {
         await updateIssue(parentId, { status: "open" }, teamId);
       } catch {
@@ -89,39 +155,50 @@ async function processOutbox(): Promise<void> {
 
   let lastActivityTime = Date.now();
   let lastPidMtime = getPidFileMtime();
-  let teamId: string | null = null;
+  let teams: Array<{ id: string; key: string }> | null = null;
   let didWork = false;
 
   try {
     while (true) {
-      const items = getPendingOutboxItems();
+      // Items still backing off are picked up once they're due
+      const items = getPendingOutboxItems().filter((item) => isOutboxItemDue(item));
 
       if (items.length > 0) {
         // We have work - reset idle timer
         lastActivityTime = Date.now();
         didWork = true;
 
-        // Get team ID once (cache it)
-        if (!teamId) {
-          teamId = await getTeamId();
+        // Get the synced teams once (cache them); the first is the default
+        if (!teams) {
+          teams = await getSyncTeams();
         }
 
         // Process items one by one
-        for (const item of items) {
+        for (const queued of items) {
+          // Re-read: an earlier create may have remapped temporary IDs in this payload
+          const item = getOutboxItem(queued.id);
+          if (!item) continue;
+
           try {
-            await processOutboxItem(item, teamId);
+            await processOutboxItem(item, teams[0].id);
             removeOutboxItem(item.id);
           } catch (error) {
+            const dead = recordOutboxFailure(item, error);
+            if (error instanceof OutboxWaitError) continue;
             const errorMsg = error instanceof Error ? error.message : String(error);
-            console.error(`Failed to process outbox item ${item.id}:`, errorMsg);
-            updateOutboxItemError(item.id, errorMsg);
-
-            // Brief pause before continuing to next item
-            await sleep(1000);
+            console.error(
+              `Failed to process outbox item ${item.id}${dead ? " (dead-lettered)" : ""}:`,
+              errorMsg
+            );
           }
         }
       } else {
-        // No items - check if we should stay alive
+        // No items due - items still backing off keep us alive until their retry
+        if (getPendingOutboxItems().length > 0) {
+          lastActivityTime = Date.now();
+        }
+
+        // Check if we should stay alive
         const currentPidMtime = getPidFileMtime();
 
         // If PID file was touched since last check, reset idle timer
@@ -142,20 +219,28 @@ async function processOutbox(): Promise<void> {
 
     // Sync if we did work
     if (didWork) {
-      if (!teamId) {
-        teamId = await getTeamId();
+      if (!teams) {
+        teams = await getSyncTeams();
+      }
+      for (const team of teams) {
+        await fetchIssues(team.id);
       }
-      await fetchIssues(teamId);
       exportToJsonl();
     }
 
     // Check if we should run a full sync (every 3rd run or >24h since last)
     if (needsFullSync()) {
-      if (!teamId) {
-        teamId = await getTeamId();
+      if (!teams) {
+        teams = await getSyncTeams();
       }
       try {
-        const { pruned } = await fetchAllIssuesPaginated(teamId);
+        let pruned = 0;
+        for (const team of teams) {
+          pruned += (await fetchAllIssuesPaginated(team.id)).pruned;
+          await fetchCycles(team.id);
+        }
+        await fetchMilestones(teams[0].id);
+        pruned += pruneOtherTeams(teams.map((team) => team.key));
         if (pruned > 0) {
           console.log(`Background full sync: pruned ${pruned} stale issues`);
         }
@@ -178,8 +263,12 @@ async function processOutbox(): Promise<void> {
 
 /**
  * Process a single outbox item
+ * teamId is the default team, for creates queued without one and issues not in the cache
  */
-async function processOutboxItem(item: any, teamId: string): Promise<void> {
+async function processOutboxItem(item: OutboxItem, teamId: string): Promise<void> {
+  // Wait until issues this item refers to by temporary ID exist in Linear
+  assertTempIdsCreated(item);
+
   switch (item.operation) {
     case "create": {
       const payload = item.payload as {
@@ -187,18 +276,35 @@ async function processOutboxItem(item: any, teamId: string): Promise<void> {
         description?: string;
         priority: Priority;
         issueType?: IssueType;
+        estimate?: number;
+        dueDate?: string;
+        cycle?: number;
+        milestone?: string;
         parentId?: string;
         deps?: string;
+        labels?: string[];
+        team?: string;
+        tempId?: string;
       };
       const issue = await createIssue({
         title: payload.title,
         description: payload.description,
         priority: payload.priority,
         issueType: payload.issueType,
+        estimate: payload.estimate,
+        dueDate: payload.dueDate,
+        cycle: payload.cycle,
+        milestone: payload.milestone,
         parentId: payload.parentId,
-        teamId,
+        labels: payload.labels,
+        teamId: payload.team ? await getTeamId(payload.team) : teamId,
       });
 
+      // Point everything that used the temporary ID at the real issue
+      if (payload.tempId) {
+        remapTempId(payload.tempId, issue.id);
+      }
+
       // Handle deps after issue creation
       if (payload.deps) {
         const deps = payload.deps.split(",").map((dep: string) => {
@@ -229,14 +335,23 @@ async function processOutboxItem(item: any, teamId: string): Promise<void> {
         description?: string;
         status?: Issue["status"];
         priority?: Priority;
+        estimate?: number | null;
+        due_date?: string | null;
+        cycle?: number | null;
+        milestone?: string | null;
         deps?: string;
         parentId?: string;
+        labels?: string[];
+        removeLabels?: string[];
       };
-      await updateIssue(payload.issueId, payload, teamId);
+      await assertNoUpdateConflict(payload);
+      const issueTeamId = await getIssueTeamId(payload.issueId, teamId);
+      await updateIssue(payload.issueId, payload, issueTeamId);
+      rebaseQueuedUpdates(payload);
 
       // Propagate status changes to parent
       if (payload.status) {
-        await propagateStatusToParent(payload.issueId, payload.status, teamId);
+        await propagateStatusToParent(payload.issueId, payload.status, issueTeamId);
       }
 
       // Handle parent after update
@@ -279,11 +394,20 @@ async function processOutboxItem(item: any, teamId: string): Promise<void> {
       const payload = item.payload as {
         issueId: string;
         reason?: string;
+        resolution?: Resolution;
+        duplicateOf?: string;
       };
-      await closeIssue(payload.issueId, teamId, payload.reason);
+      const issueTeamId = await getIssueTeamId(payload.issueId, teamId);
+      await closeIssue(
+        payload.issueId,
+        issueTeamId,
+        payload.reason,
+        payload.resolution,
+        payload.duplicateOf
+      );
 
       // Propagate close to parent
-      await propagateStatusToParent(payload.issueId, "closed", teamId);
+      await propagateStatusToParent(payload.issueId, "closed", issueTeamId);
       break;
     }
 
@@ -314,8 +438,33 @@ async function processOutboxItem(item: any, teamId: string): Promise<void> {
       break;
     }
 
+    case "create_comment": {
+      const payload = item.payload as {
+        issueId: string;
+        body: string;
+        localId?: string;
+      };
+      await addComment(payload.issueId, payload.body);
+
+      // Replace the local placeholder with the comment Linear just cached
+      if (payload.localId) {
+        deleteCachedComment(payload.localId);
+      }
+      break;
+    }
+
+    case "update_comment": {
+      const payload = item.payload as {
+        commentId: string;
+        body: string;
+      };
+      await updateComment(payload.commentId, payload.body);
+      break;
+    }
+
     default:
-      throw new Error(`Unknown operation: ${item.operation}`);
+      // "Invalid" makes this a permanent failure: dead-letter it instead of retrying
+      throw new Error(`Invalid outbox operation: ${item.operation}`);
   }
 }
 
@@ -341,4 +490,4 @@ if (import.meta.main) {
     });
 }
 
-export { processOutbox };
+export { processOutbox, processOutboxItem, propagateStatusToParent };
@@ -15,6 +15,8 @@ import { join } from "path";
 import { homedir } from "os";
 import { existsSync, readFileSync } from "fs";
 import { parse as parseJsonc } from "jsonc-parser";
+import { statusesForMapping } from "../types.js";
+import type { WorkflowStatus } from "../types.js";
 
 // Combined config type that includes both schema-defined options and legacy env var options
 interface LoadedConfig extends ConfigTypes {
@@ -118,6 +120,8 @@ export const DEFAULT_CONFIG: LoadedConfig = {
   cache_ttl_seconds: 120,
   local_only: false,
   repo_scope: "label", // Default to label for backward compatibility
+  outbox_max_attempts: 8,
+  jsonl_sync: false,
 };
 
 /**
@@ -193,6 +197,9 @@ function loadConfig(): LoadedConfig {
   if (process.env.LB_REPO_NAME) {
     config.repo_name = process.env.LB_REPO_NAME;
   }
+  if (process.env.LINEAR_WEBHOOK_SECRET) {
+    config.webhook_secret = process.env.LINEAR_WEBHOOK_SECRET;
+  }
 
   // 4. If repo_name not set in config, use heuristic (lowest priority)
   if (!config.repo_name) {
@@ -236,10 +243,27 @@ export function getApiKey(): string {
 }
 
 /**
- * Get team key - from config or environment
+ * Get the default team key - team_key from config or environment, else the first of teams
  */
 export function getTeamKey(): string | undefined {
-  return getOption("team_key");
+  return getOption("team_key") || getOption("teams")?.[0];
+}
+
+/**
+ * Parse a comma-separated --team value into team keys
+ */
+export function parseTeamKeys(value: string): string[] {
+  const keys = value.split(",").map((key) => key.trim().toUpperCase());
+  return [...new Set(keys.filter(Boolean))];
+}
+
+/**
+ * Team keys to sync: the default team, the teams config, and any from --team
+ * Empty when no team is configured (it's auto-detected)
+ */
+export function getSyncTeamKeys(teamOption?: string): string[] {
+  const configured = [getOption("team_key"), ...(getOption("teams") || [])];
+  return parseTeamKeys([...configured, teamOption].filter(Boolean).join(","));
 }
 
 /**
@@ -271,6 +295,42 @@ export function isLocalOnly(): boolean {
   return getOption("local_only") === true;
 }
 
+/**
+ * Get max attempts for an outbox item before it is dead-lettered
+ */
+export function getMaxOutboxAttempts(): number {
+  const attempts = getOption("outbox_max_attempts");
+  return typeof attempts === "number" && attempts >= 1 ? attempts : 8;
+}
+
+/**
+ * Get the Linear webhook signing secret for lb serve --webhooks
+ */
+export function getWebhookSecret(): string | undefined {
+  return getOption("webhook_secret");
+}
+
+/**
+ * Check if edits to .lb/issues.jsonl should be imported
+ */
+export function isJsonlSyncEnabled(): boolean {
+  return getOption("jsonl_sync") === true;
+}
+
+/**
+ * Get the Linear workflow state name -> lb status mapping
+ */
+export function getWorkflowStateMapping(): Record<string, string> {
+  return getOption("workflow_states") || {};
+}
+
+/**
+ * Statuses accepted by --status: the built-in ones plus any mapped custom statuses
+ */
+export function getValidStatuses(): WorkflowStatus[] {
+  return statusesForMapping(getWorkflowStateMapping());
+}
+
 /**
  * Get repo scoping mode (label, project, or both)
  */
@@ -0,0 +1,95 @@
+/**
+ * Cycle (sprint) lookups against the cycle cache
+ * --cycle accepts current, next, or a cycle number (per team: each team numbers its own cycles)
+ */
+
+import { getCachedCycles } from "./database.js";
+import { getTeamKey } from "./config.js";
+import type { Cycle } from "../types.js";
+
+/**
+ * Where a cycle sits relative to now
+ */
+export function cycleState(cycle: Cycle, now: Date = new Date()): "past" | "current" | "upcoming" {
+  const time = now.toISOString();
+  if (cycle.completed_at || cycle.ends_at <= time) return "past";
+  return cycle.starts_at <= time ? "current" : "upcoming";
+}
+
+/**
+ * Resolve a --cycle value to a cached cycle, throwing if there's no match
+ */
+export function resolveCycle(value: string, cycles: Cycle[] = getCachedCycles()): Cycle {
+  const input = value.trim().toLowerCase();
+  if (cycles.length === 0) {
+    throw new Error("No cycles cached. Run lb cycle list --sync to fetch them from Linear");
+  }
+
+  let cycle: Cycle | undefined;
+  if (input === "current") {
+    cycle = cycles.find((c) => cycleState(c) === "current");
+    if (!cycle) throw new Error("No cycle is active right now");
+  } else if (input === "next") {
+    cycle = cycles.find((c) => cycleState(c) === "upcoming");
+    if (!cycle) throw new Error("No upcoming cycle. Create one in Linear first");
+  } else if (/^\d+$/.test(input)) {
+    cycle = cycles.find((c) => c.number === parseInt(input));
+    if (!cycle) throw new Error(`Cycle not found: ${value}`);
+  } else {
+    throw new Error(`Invalid cycle '${value}'. Use current, next, or a cycle number`);
+  }
+  return cycle;
+}
+
+/**
+ * Cached cycles of a team (the default team if not given)
+ * Cycles cached without a team key (local-only, or not re-fetched since) count for every team.
+ */
+export function getTeamCycles(team?: string, cycles: Cycle[] = getCachedCycles()): Cycle[] {
+  const key = team || getTeamKey();
+  return cycles.filter((c) => !c.team || c.team === key);
+}
+
+/**
+ * Resolve a --cycle value in each team's own cycles.
+ * Returns the cycle number for a team key (undefined if that team has no such cycle);
+ * throws if no team has a match.
+ */
+export function resolveCyclePerTeam(
+  value: string,
+  cycles: Cycle[] = getCachedCycles()
+): (team?: string) => number | undefined {
+  const teams = [...new Set(cycles.map((c) => c.team).filter((t): t is string => !!t))];
+  if (teams.length <= 1) {
+    const { number } = resolveCycle(value, cycles);
+    return () => number;
+  }
+
+  const numbers = new Map<string, number>();
+  let firstError: unknown;
+  for (const team of teams) {
+    try {
+      numbers.set(team, resolveCycle(value, getTeamCycles(team, cycles)).number);
+    } catch (error) {
+      firstError ??= error;
+    }
+  }
+  if (numbers.size === 0) {
+    throw firstError;
+  }
+  return (team) => numbers.get(team || getTeamKey() || "");
+}
+
+/**
+ * Cycle name for display, e.g. "Cycle 12" or "Cycle 12 (Launch prep)"
+ */
+export function formatCycleName(cycle: Cycle): string {
+  return cycle.name ? `Cycle ${cycle.number} (${cycle.name})` : `Cycle ${cycle.number}`;
+}
+
+/**
+ * Date range for display, e.g. "2026-10-05 → 2026-10-19"
+ */
+export function formatCycleDates(cycle: Cycle): string {
+  return `${cycle.starts_at.slice(0, 10)} → ${cycle.ends_at.slice(0, 10)}`;
+}
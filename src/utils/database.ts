@@ -8,7 +8,16 @@ import { existsSync, mkdirSync } from "fs";
 import { dirname } from "path";
 import { getDbPath } from "./config.js";
 import { requestJsonlExport } from "./jsonl-scheduler.js";
-import type { Issue, Dependency, OutboxItem } from "../types.js";
+import { UPDATE_CONFLICT_FIELDS } from "../types.js";
+import type {
+  Issue,
+  Dependency,
+  OutboxItem,
+  Comment,
+  UpdateBase,
+  Cycle,
+  Milestone,
+} from "../types.js";
 
 let db: Database | null = null;
 
@@ -105,6 +114,22 @@ function initSchema(db: Database): void {
     db.exec("PRAGMA user_version = 1");
   }
 
+  if (currentVersion < 2) {
+    // Full-text search index over cached issues (kept current by cacheIssue/cacheIssues)
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS issues_fts USING fts5(
+        id UNINDEXED,
+        title,
+        description,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+      DELETE FROM issues_fts;
+      INSERT INTO issues_fts (id, title, description)
+        SELECT id, title, COALESCE(description, '') FROM issues;
+    `);
+    db.exec("PRAGMA user_version = 2");
+  }
+
   // Continue with rest of schema (these are idempotent with IF NOT EXISTS)
   db.exec(`
 
@@ -131,6 +156,15 @@ function initSchema(db: Database): void {
 
     CREATE INDEX IF NOT EXISTS idx_labels_name ON labels(name);
 
+    -- Issue-to-label mapping (label names as shown in Linear)
+    CREATE TABLE IF NOT EXISTS issue_labels (
+      issue_id TEXT NOT NULL,
+      label_name TEXT NOT NULL,
+      PRIMARY KEY (issue_id, label_name)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_issue_labels_name ON issue_labels(label_name);
+
     -- Projects cache (for project-based repo scoping)
     CREATE TABLE IF NOT EXISTS projects (
       id TEXT PRIMARY KEY,
@@ -140,6 +174,18 @@ function initSchema(db: Database): void {
 
     CREATE INDEX IF NOT EXISTS idx_projects_name ON projects(name);
 
+    -- Comments cache (includes locally created comments still queued in outbox)
+    CREATE TABLE IF NOT EXISTS comments (
+      id TEXT PRIMARY KEY,
+      issue_id TEXT NOT NULL,
+      body TEXT NOT NULL,
+      author TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_comments_issue_id ON comments(issue_id);
+
     -- Outbox queue for pending mutations
     CREATE TABLE IF NOT EXISTS outbox (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -150,12 +196,115 @@ function initSchema(db: Database): void {
       last_error TEXT
     );
 
+    -- Linear cycles (sprints) per team
+    CREATE TABLE IF NOT EXISTS cycles (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL,
+      number INTEGER NOT NULL,
+      name TEXT,
+      starts_at TEXT NOT NULL,
+      ends_at TEXT NOT NULL,
+      completed_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_cycles_team_number ON cycles(team_id, number);
+
+    -- Milestones of the repo project
+    CREATE TABLE IF NOT EXISTS milestones (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      target_date TEXT,
+      sort_order REAL NOT NULL DEFAULT 0
+    );
+
+    -- Temporary IDs of queued creates and the Linear identifiers they became
+    CREATE TABLE IF NOT EXISTS temp_ids (
+      temp_id TEXT PRIMARY KEY,
+      real_id TEXT NOT NULL
+    );
+
     -- Metadata (cache timestamps, etc.)
     CREATE TABLE IF NOT EXISTS metadata (
       key TEXT PRIMARY KEY,
       value TEXT NOT NULL
     );
   `);
+
+  if (currentVersion < 3) {
+    // Outbox retry backoff and dead-letter state
+    db.exec(`
+      ALTER TABLE outbox ADD COLUMN last_attempt_at TEXT;
+      ALTER TABLE outbox ADD COLUMN dead_at TEXT;
+    `);
+    db.exec("PRAGMA user_version = 3");
+  }
+
+  if (currentVersion < 4) {
+    // Linear UUIDs, so webhook payloads (which reference issues by UUID) can be applied
+    db.exec(`
+      ALTER TABLE issues ADD COLUMN linear_id TEXT;
+      CREATE INDEX IF NOT EXISTS idx_issues_linear_id ON issues(linear_id);
+    `);
+    db.exec("PRAGMA user_version = 4");
+  }
+
+  if (currentVersion < 5) {
+    // Updates parked because the issue changed in Linear after they were queued
+    db.exec("ALTER TABLE outbox ADD COLUMN conflict_at TEXT");
+    db.exec("PRAGMA user_version = 5");
+  }
+
+  if (currentVersion < 6) {
+    // How closed issues were resolved (done, wont_fix, duplicate)
+    db.exec(`
+      ALTER TABLE issues ADD COLUMN resolution TEXT;
+      ALTER TABLE issues ADD COLUMN duplicate_of TEXT;
+    `);
+    db.exec("PRAGMA user_version = 6");
+  }
+
+  if (currentVersion < 7) {
+    // Story point estimates
+    db.exec("ALTER TABLE issues ADD COLUMN estimate INTEGER");
+    db.exec("PRAGMA user_version = 7");
+  }
+
+  if (currentVersion < 8) {
+    // Due dates (YYYY-MM-DD)
+    db.exec("ALTER TABLE issues ADD COLUMN due_date TEXT");
+    db.exec("PRAGMA user_version = 8");
+  }
+
+  if (currentVersion < 9) {
+    // Cycle (sprint) number of each issue
+    db.exec("ALTER TABLE issues ADD COLUMN cycle INTEGER");
+    db.exec("PRAGMA user_version = 9");
+  }
+
+  if (currentVersion < 10) {
+    // Project milestone name of each issue
+    db.exec("ALTER TABLE issues ADD COLUMN milestone TEXT");
+    db.exec("PRAGMA user_version = 10");
+  }
+
+  if (currentVersion < 11) {
+    // Team key of each issue, so several teams can share the cache.
+    // Identifiers start with the team key; local and queued issues have none.
+    db.exec(`
+      ALTER TABLE issues ADD COLUMN team TEXT;
+      CREATE INDEX IF NOT EXISTS idx_issues_team ON issues(team);
+      UPDATE issues SET team = substr(id, 1, instr(id, '-') - 1)
+        WHERE instr(id, '-') > 1 AND id NOT LIKE 'TMP-%' AND id NOT LIKE 'LOCAL-%';
+    `);
+    db.exec("PRAGMA user_version = 11");
+  }
+
+  if (currentVersion < 12) {
+    // Team key of each cycle, to resolve --cycle per team (filled in on the next fetch)
+    db.exec("ALTER TABLE cycles ADD COLUMN team TEXT");
+    db.exec("PRAGMA user_version = 12");
+  }
 }
 
 /**
@@ -179,10 +328,257 @@ export function generateLocalId(): string {
   return `LOCAL-${nextNum.toString().padStart(3, "0")}`;
 }
 
+/**
+ * Generate next temporary issue ID (TMP-001, TMP-002, etc.)
+ * Used for issues queued for creation until the worker learns their Linear identifier.
+ */
+export function generateTempId(): string {
+  const db = getDatabase();
+
+  const row = db.query("SELECT value FROM metadata WHERE key = 'temp_id_counter'").get() as {
+    value: string;
+  } | null;
+
+  const nextNum = row ? parseInt(row.value) + 1 : 1;
+
+  db.run("INSERT OR REPLACE INTO metadata (key, value) VALUES ('temp_id_counter', ?)", [
+    nextNum.toString(),
+  ]);
+
+  return `TMP-${nextNum.toString().padStart(3, "0")}`;
+}
+
+/**
+ * Make sure generateLocalId() never hands out an ID that already exists elsewhere
+ * (e.g. LOCAL-007 created by a teammate and imported from issues.jsonl)
+ */
+export function reserveLocalId(id: string): void {
+  const match = id.match(/^LOCAL-(\d+)$/);
+  if (!match) return;
+  const db = getDatabase();
+  db.run(
+    `INSERT INTO metadata (key, value) VALUES ('local_id_counter', ?)
+     ON CONFLICT(key) DO UPDATE SET value = MAX(CAST(value AS INTEGER), CAST(excluded.value AS INTEGER))`,
+    [parseInt(match[1]).toString()]
+  );
+}
+
+/**
+ * Last issues.jsonl content written or imported by lb, with its hash
+ */
+export function getJsonlSnapshot(): { hash: string; content: string } | null {
+  const db = getDatabase();
+  const rows = db
+    .query("SELECT key, value FROM metadata WHERE key IN ('jsonl_hash', 'jsonl_snapshot')")
+    .all() as Array<{ key: string; value: string }>;
+  const hash = rows.find((r) => r.key === "jsonl_hash")?.value;
+  const content = rows.find((r) => r.key === "jsonl_snapshot")?.value;
+  return hash !== undefined && content !== undefined ? { hash, content } : null;
+}
+
+/**
+ * Record the issues.jsonl content the cache is now in step with
+ */
+export function setJsonlSnapshot(hash: string, content: string): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.run("INSERT OR REPLACE INTO metadata (key, value) VALUES ('jsonl_hash', ?)", [hash]);
+    db.run("INSERT OR REPLACE INTO metadata (key, value) VALUES ('jsonl_snapshot', ?)", [content]);
+  })();
+}
+
+/**
+ * Check if an issue ID is a temporary ID (queued create, not yet in Linear)
+ */
+export function isTempId(id: string): boolean {
+  return /^TMP-\d+$/.test(id);
+}
+
+/**
+ * Get the Linear identifier a temporary ID was created as, or null if still queued
+ */
+export function getRemappedId(tempId: string): string | null {
+  const db = getDatabase();
+  const row = db.query("SELECT real_id FROM temp_ids WHERE temp_id = ?").get(tempId) as {
+    real_id: string;
+  } | null;
+  return row?.real_id || null;
+}
+
+/**
+ * Replace a temporary ID that was already created with its Linear identifier
+ */
+function resolveTempId(id: string): string {
+  return (isTempId(id) && getRemappedId(id)) || id;
+}
+
+// Outbox payload fields that hold issue IDs
+const PAYLOAD_ISSUE_ID_FIELDS = [
+  "issueId",
+  "parentId",
+  "relatedIssueId",
+  "issueA",
+  "issueB",
+  "duplicateOf",
+];
+
+/**
+ * Apply fn to every issue ID referenced by an outbox payload (including "type:id" deps lists)
+ */
+function mapPayloadIssueIds(
+  payload: Record<string, unknown>,
+  fn: (id: string) => string
+): Record<string, unknown> {
+  const mapped = { ...payload };
+  for (const field of PAYLOAD_ISSUE_ID_FIELDS) {
+    if (typeof mapped[field] === "string") {
+      mapped[field] = fn(mapped[field] as string);
+    }
+  }
+  if (typeof mapped.deps === "string" && mapped.deps) {
+    mapped.deps = mapped.deps
+      .split(",")
+      .map((dep) => {
+        const [type, targetId] = dep.trim().split(":");
+        return targetId ? `${type}:${fn(targetId)}` : dep;
+      })
+      .join(",");
+  }
+  return mapped;
+}
+
+/**
+ * Temporary IDs referenced by an outbox payload that have not been created in Linear yet
+ */
+export function findUnresolvedTempIds(payload: Record<string, unknown>): string[] {
+  const unresolved = new Set<string>();
+  mapPayloadIssueIds(payload, (id) => {
+    if (isTempId(id) && !getRemappedId(id)) unresolved.add(id);
+    return id;
+  });
+  return [...unresolved];
+}
+
+/**
+ * Record that a queued create became a real Linear issue and rewrite everything
+ * that referenced the temporary ID: cached rows, dependencies, comments and
+ * later outbox payloads.
+ */
+export function remapTempId(tempId: string, realId: string): void {
+  const db = getDatabase();
+  const rewrite = (id: string) => (id === tempId ? realId : id);
+
+  db.transaction(() => {
+    db.run("INSERT OR REPLACE INTO temp_ids (temp_id, real_id) VALUES (?, ?)", [tempId, realId]);
+
+    // The real issue was cached on create; drop the placeholder
+    db.run("DELETE FROM issues WHERE id = ?", [tempId]);
+    db.run("DELETE FROM issues_fts WHERE id = ?", [tempId]);
+    db.run("DELETE FROM issue_labels WHERE issue_id = ?", [tempId]);
+
+    db.run("UPDATE OR IGNORE dependencies SET issue_id = ? WHERE issue_id = ?", [realId, tempId]);
+    db.run("UPDATE OR IGNORE dependencies SET depends_on_id = ? WHERE depends_on_id = ?", [
+      realId,
+      tempId,
+    ]);
+    // Leftovers duplicated a relation the real issue already has
+    db.run("DELETE FROM dependencies WHERE issue_id = ? OR depends_on_id = ?", [tempId, tempId]);
+
+    db.run("UPDATE comments SET issue_id = ? WHERE issue_id = ?", [realId, tempId]);
+
+    const rows = db.query("SELECT id, payload FROM outbox").all() as Array<{
+      id: number;
+      payload: string;
+    }>;
+    for (const row of rows) {
+      const payload = JSON.parse(row.payload);
+      const mapped = mapPayloadIssueIds(payload, rewrite);
+      if (JSON.stringify(mapped) !== JSON.stringify(payload)) {
+        db.run("UPDATE outbox SET payload = ? WHERE id = ?", [JSON.stringify(mapped), row.id]);
+      }
+    }
+  })();
+
+  requestJsonlExport();
+}
+
+/**
+ * Generate next local comment ID (LOCAL-C-001, LOCAL-C-002, etc.)
+ * Used for comments created offline or in local-only mode until Linear assigns a real ID.
+ */
+export function generateLocalCommentId(): string {
+  const db = getDatabase();
+
+  const row = db.query("SELECT value FROM metadata WHERE key = 'local_comment_counter'").get() as {
+    value: string;
+  } | null;
+
+  const nextNum = row ? parseInt(row.value) + 1 : 1;
+
+  db.run("INSERT OR REPLACE INTO metadata (key, value) VALUES ('local_comment_counter', ?)", [
+    nextNum.toString(),
+  ]);
+
+  return `LOCAL-C-${nextNum.toString().padStart(3, "0")}`;
+}
+
+/**
+ * Check if a comment ID is a local placeholder (not yet synced to Linear)
+ */
+export function isLocalCommentId(id: string): boolean {
+  return id.startsWith("LOCAL-C-");
+}
+
+/**
+ * Find the cached issue identifier for a Linear issue UUID
+ */
+export function getIssueIdByLinearId(linearId: string): string | null {
+  const db = getDatabase();
+  const row = db.query("SELECT id FROM issues WHERE linear_id = ?").get(linearId) as {
+    id: string;
+  } | null;
+  return row?.id || null;
+}
+
+// How long a webhook server heartbeat keeps the cache fresh
+const WEBHOOK_HEARTBEAT_TTL_SECONDS = 90;
+
+/**
+ * Record that `lb serve --webhooks` is running and keeping the cache current
+ */
+export function touchWebhookHeartbeat(): void {
+  const db = getDatabase();
+  db.run("INSERT OR REPLACE INTO metadata (key, value) VALUES ('webhook_heartbeat', ?)", [
+    new Date().toISOString(),
+  ]);
+}
+
+/**
+ * Clear the webhook heartbeat (server shutting down)
+ */
+export function clearWebhookHeartbeat(): void {
+  const db = getDatabase();
+  db.run("DELETE FROM metadata WHERE key = 'webhook_heartbeat'");
+}
+
+/**
+ * Check if a webhook server is live, in which case the cache needs no polling
+ */
+export function isWebhookServerLive(): boolean {
+  const db = getDatabase();
+  const row = db.query("SELECT value FROM metadata WHERE key = 'webhook_heartbeat'").get() as {
+    value: string;
+  } | null;
+  if (!row) return false;
+  return (Date.now() - new Date(row.value).getTime()) / 1000 < WEBHOOK_HEARTBEAT_TTL_SECONDS;
+}
+
 /**
  * Check if cache is stale
  */
 export function isCacheStale(ttlSeconds: number = 120): boolean {
+  if (isWebhookServerLive()) return false;
+
   const db = getDatabase();
   const row = db.query("SELECT value FROM metadata WHERE key = 'last_sync'").get() as {
     value: string;
@@ -212,7 +608,8 @@ export function getCacheInfo(): { lastSync: Date | null; ageSeconds: number; isS
 
   const lastSync = new Date(row.value);
   const now = new Date();
-  const ageSeconds = (now.getTime() - lastSync.getTime()) / 1000;
+  // Webhooks keep the cache current between syncs
+  const ageSeconds = isWebhookServerLive() ? 0 : (now.getTime() - lastSync.getTime()) / 1000;
 
   return { lastSync, ageSeconds, isStale: ageSeconds > 120 };
 }
@@ -325,16 +722,38 @@ export function needsFullSync(): boolean {
   return hoursSinceFullSync > 24;
 }
 
+/**
+ * Resolution columns for a cached issue.
+ * Bulk syncs don't fetch relations, so a duplicate reads as a plain canceled
+ * (wont_fix) issue; keep the duplicate_of we already know in that case.
+ */
+function resolutionColumns(
+  db: Database,
+  issue: Issue
+): { resolution: string | null; duplicate_of: string | null } {
+  if (issue.status !== "closed") return { resolution: null, duplicate_of: null };
+  if (issue.duplicate_of || issue.resolution !== "wont_fix") {
+    return { resolution: issue.resolution || null, duplicate_of: issue.duplicate_of || null };
+  }
+  const row = db.query("SELECT duplicate_of FROM issues WHERE id = ?").get(issue.id) as {
+    duplicate_of: string | null;
+  } | null;
+  return row?.duplicate_of
+    ? { resolution: "duplicate", duplicate_of: row.duplicate_of }
+    : { resolution: "wont_fix", duplicate_of: null };
+}
+
 /**
  * Cache an issue
  */
-export function cacheIssue(issue: Issue & { linear_state_id?: string }): void {
+export function cacheIssue(issue: Issue & { linear_state_id?: string; linear_id?: string }): void {
   const db = getDatabase();
+  const { resolution, duplicate_of } = resolutionColumns(db, issue);
   db.run(
     `
     INSERT OR REPLACE INTO issues 
-    (id, identifier, title, description, status, priority, issue_type, created_at, updated_at, closed_at, assignee, linear_state_id, cached_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    (id, identifier, title, description, status, priority, issue_type, created_at, updated_at, closed_at, assignee, linear_state_id, linear_id, resolution, duplicate_of, estimate, due_date, cycle, milestone, team, cached_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
   `,
     [
       issue.id,
@@ -349,24 +768,39 @@ export function cacheIssue(issue: Issue & { linear_state_id?: string }): void {
       issue.closed_at || null,
       issue.assignee || null,
       issue.linear_state_id || null,
+      issue.linear_id || null,
+      resolution,
+      duplicate_of,
+      issue.estimate ?? null,
+      issue.due_date || null,
+      issue.cycle ?? null,
+      issue.milestone || null,
+      issue.team || null,
     ]
   );
+  if (issue.labels) {
+    setIssueLabels(db, issue.id, issue.labels);
+  }
+  indexIssueForSearch(db, issue);
   requestJsonlExport();
 }
 
 /**
  * Cache multiple issues (transactional)
  */
-export function cacheIssues(issues: Array<Issue & { linear_state_id?: string }>): void {
+export function cacheIssues(
+  issues: Array<Issue & { linear_state_id?: string; linear_id?: string }>
+): void {
   const db = getDatabase();
   const insert = db.prepare(`
     INSERT OR REPLACE INTO issues 
-    (id, identifier, title, description, status, priority, issue_type, created_at, updated_at, closed_at, assignee, linear_state_id, cached_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    (id, identifier, title, description, status, priority, issue_type, created_at, updated_at, closed_at, assignee, linear_state_id, linear_id, resolution, duplicate_of, estimate, due_date, cycle, milestone, team, cached_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
   `);
 
   const transaction = db.transaction(() => {
     for (const issue of issues) {
+      const { resolution, duplicate_of } = resolutionColumns(db, issue);
       insert.run(
         issue.id,
         issue.id,
@@ -379,8 +813,20 @@ export function cacheIssues(issues: Array<Issue & { linear_state_id?: string }>)
         issue.updated_at,
         issue.closed_at || null,
         issue.assignee || null,
-        issue.linear_state_id || null
+        issue.linear_state_id || null,
+        issue.linear_id || null,
+        resolution,
+        duplicate_of,
+        issue.estimate ?? null,
+        issue.due_date || null,
+        issue.cycle ?? null,
+        issue.milestone || null,
+        issue.team || null
       );
+      if (issue.labels) {
+        setIssueLabels(db, issue.id, issue.labels);
+      }
+      indexIssueForSearch(db, issue);
     }
   });
 
@@ -389,17 +835,86 @@ export function cacheIssues(issues: Array<Issue & { linear_state_id?: string }>)
 }
 
 /**
- * Get cached issue by ID
+ * Replace the label mapping for an issue
  */
-export function getCachedIssue(id: string): Issue | null {
+function setIssueLabels(db: Database, issueId: string, labels: string[]): void {
+  db.run("DELETE FROM issue_labels WHERE issue_id = ?", [issueId]);
+  for (const label of labels) {
+    db.run("INSERT OR IGNORE INTO issue_labels (issue_id, label_name) VALUES (?, ?)", [
+      issueId,
+      label,
+    ]);
+  }
+}
+
+/**
+ * Replace an issue's row in the full-text search index
+ */
+function indexIssueForSearch(db: Database, issue: Issue): void {
+  db.run("DELETE FROM issues_fts WHERE id = ?", [issue.id]);
+  db.run("INSERT INTO issues_fts (id, title, description) VALUES (?, ?, ?)", [
+    issue.id,
+    issue.title,
+    issue.description || "",
+  ]);
+}
+
+/**
+ * Convert free text into an FTS5 query: every word must match, as a prefix.
+ * Quoting each token keeps punctuation (e.g. "LIN-123", "a:b") from being parsed as syntax.
+ */
+function toFtsQuery(text: string): string | null {
+  const tokens = text.match(/[\p{L}\p{N}_]+/gu) || [];
+  if (tokens.length === 0) return null;
+  return tokens.map((t) => `"${t}"*`).join(" ");
+}
+
+/**
+ * Search cached issues by title and description, best matches first.
+ * Title matches weigh more than description matches.
+ * Markers wrap matched terms in the returned title/snippet.
+ */
+export function searchIssues(
+  text: string,
+  markers: { open: string; close: string } = { open: "", close: "" }
+): Array<{ issue: Issue; score: number; title: string; snippet: string }> {
   const db = getDatabase();
-  const row = db.query("SELECT * FROM issues WHERE id = ? OR identifier = ?").get(id, id) as Record<
-    string,
-    unknown
-  > | null;
+  const query = toFtsQuery(text);
+  if (!query) return [];
 
-  if (!row) return null;
+  const rows = db
+    .query(
+      `
+    SELECT id,
+           bm25(issues_fts, 0.0, 10.0, 1.0) AS score,
+           highlight(issues_fts, 1, ?, ?) AS title,
+           snippet(issues_fts, 2, ?, ?, '...', 12) AS snippet
+    FROM issues_fts
+    WHERE issues_fts MATCH ?
+    ORDER BY score
+  `
+    )
+    .all(markers.open, markers.close, markers.open, markers.close, query) as Array<{
+    id: string;
+    score: number;
+    title: string;
+    snippet: string;
+  }>;
+
+  const results: Array<{ issue: Issue; score: number; title: string; snippet: string }> = [];
+  for (const row of rows) {
+    const issue = getCachedIssue(row.id);
+    if (!issue) continue;
+    // bm25() is lower-is-better and negative; flip it so higher means more relevant
+    results.push({ issue, score: -row.score, title: row.title, snippet: row.snippet });
+  }
+  return results;
+}
 
+/**
+ * Convert an issues table row (plus its labels) to an Issue
+ */
+function rowToIssue(row: Record<string, unknown>, labels: string[]): Issue {
   const issue: Issue = {
     id: row.id as string,
     title: row.title as string,
@@ -416,9 +931,66 @@ export function getCachedIssue(id: string): Issue | null {
     issue.issue_type = row.issue_type as Issue["issue_type"];
   }
 
+  if (row.resolution) {
+    issue.resolution = row.resolution as Issue["resolution"];
+  }
+  if (row.duplicate_of) {
+    issue.duplicate_of = row.duplicate_of as string;
+  }
+
+  if (row.estimate !== null && row.estimate !== undefined) {
+    issue.estimate = row.estimate as number;
+  }
+
+  if (row.due_date) {
+    issue.due_date = row.due_date as string;
+  }
+
+  if (row.cycle !== null && row.cycle !== undefined) {
+    issue.cycle = row.cycle as number;
+  }
+
+  if (row.milestone) {
+    issue.milestone = row.milestone as string;
+  }
+
+  if (row.team) {
+    issue.team = row.team as string;
+  }
+
+  if (labels.length > 0) {
+    issue.labels = labels;
+  }
+
   return issue;
 }
 
+/**
+ * Get cached issue by ID
+ */
+export function getCachedIssue(id: string): Issue | null {
+  const db = getDatabase();
+  const row = db.query("SELECT * FROM issues WHERE id = ? OR identifier = ?").get(id, id) as Record<
+    string,
+    unknown
+  > | null;
+
+  if (!row) {
+    // A temporary ID keeps working after the issue was created in Linear
+    const realId = isTempId(id) ? getRemappedId(id) : null;
+    return realId ? getCachedIssue(realId) : null;
+  }
+
+  const labels = db
+    .query("SELECT label_name FROM issue_labels WHERE issue_id = ? ORDER BY label_name")
+    .all(row.id as string) as Array<{ label_name: string }>;
+
+  return rowToIssue(
+    row,
+    labels.map((l) => l.label_name)
+  );
+}
+
 /**
  * Get all cached issues
  */
@@ -428,25 +1000,18 @@ export function getCachedIssues(): Issue[] {
     Record<string, unknown>
   >;
 
-  return rows.map((row) => {
-    const issue: Issue = {
-      id: row.id as string,
-      title: row.title as string,
-      description: row.description as string | undefined,
-      status: row.status as Issue["status"],
-      priority: row.priority as Issue["priority"],
-      created_at: row.created_at as string,
-      updated_at: row.updated_at as string,
-      closed_at: row.closed_at as string | undefined,
-      assignee: row.assignee as string | undefined,
-    };
-
-    if (row.issue_type) {
-      issue.issue_type = row.issue_type as Issue["issue_type"];
-    }
+  // Load all labels in one query instead of one per issue
+  const labelRows = db
+    .query("SELECT issue_id, label_name FROM issue_labels ORDER BY label_name")
+    .all() as Array<{ issue_id: string; label_name: string }>;
+  const labelsByIssue = new Map<string, string[]>();
+  for (const { issue_id, label_name } of labelRows) {
+    const list = labelsByIssue.get(issue_id) || [];
+    list.push(label_name);
+    labelsByIssue.set(issue_id, list);
+  }
 
-    return issue;
-  });
+  return rows.map((row) => rowToIssue(row, labelsByIssue.get(row.id as string) || []));
 }
 
 /**
@@ -460,7 +1025,13 @@ export function cacheDependency(dep: Dependency): void {
     (issue_id, depends_on_id, type, created_at, created_by)
     VALUES (?, ?, ?, ?, ?)
   `,
-    [dep.issue_id, dep.depends_on_id, dep.type, dep.created_at, dep.created_by]
+    [
+      resolveTempId(dep.issue_id),
+      resolveTempId(dep.depends_on_id),
+      dep.type,
+      dep.created_at,
+      dep.created_by,
+    ]
   );
   requestJsonlExport();
 }
@@ -518,6 +1089,24 @@ export function getParentId(issueId: string): string | null {
   return parentDep?.depends_on_id || null;
 }
 
+/**
+ * Replace the cached parent of an issue (null removes it)
+ */
+export function setCachedParent(issueId: string, parentId: string | null): void {
+  const db = getDatabase();
+  db.run("DELETE FROM dependencies WHERE issue_id = ? AND type = 'parent-child'", [issueId]);
+  if (parentId) {
+    cacheDependency({
+      issue_id: issueId,
+      depends_on_id: parentId,
+      type: "parent-child",
+      created_at: new Date().toISOString(),
+      created_by: "sync",
+    });
+  }
+  requestJsonlExport();
+}
+
 /**
  * Get child issue IDs
  */
@@ -529,6 +1118,17 @@ export function getChildIds(issueId: string): string[] {
   return rows.map((r) => r.issue_id);
 }
 
+/**
+ * Get IDs of all issues that have subtasks
+ */
+export function getParentIssueIds(): string[] {
+  const db = getDatabase();
+  const rows = db
+    .query("SELECT DISTINCT depends_on_id FROM dependencies WHERE type = 'parent-child'")
+    .all() as Array<{ depends_on_id: string }>;
+  return rows.map((r) => r.depends_on_id);
+}
+
 /**
  * Get inverse dependencies for an issue (incoming: others depend on this issue)
  */
@@ -565,6 +1165,91 @@ export function getDependents(issueId: string): Dependency[] {
   }));
 }
 
+/**
+ * Cache a comment
+ */
+export function cacheComment(comment: Comment): void {
+  const db = getDatabase();
+  db.run(
+    `
+    INSERT OR REPLACE INTO comments (id, issue_id, body, author, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `,
+    [
+      comment.id,
+      comment.issue_id,
+      comment.body,
+      comment.author || null,
+      comment.created_at,
+      comment.updated_at,
+    ]
+  );
+}
+
+/**
+ * Replace all cached comments for an issue (after fetching fresh from Linear)
+ * Keeps local placeholder comments that are still waiting in the outbox.
+ */
+export function replaceIssueComments(issueId: string, comments: Comment[]): void {
+  const db = getDatabase();
+  const transaction = db.transaction(() => {
+    db.run("DELETE FROM comments WHERE issue_id = ? AND id NOT LIKE 'LOCAL-C-%'", [issueId]);
+    for (const comment of comments) {
+      cacheComment(comment);
+    }
+  });
+  transaction();
+}
+
+/**
+ * Get cached comments for an issue (oldest first)
+ */
+export function getCachedComments(issueId: string): Comment[] {
+  const db = getDatabase();
+  const rows = db
+    .query("SELECT * FROM comments WHERE issue_id = ? ORDER BY created_at ASC")
+    .all(issueId) as Array<Record<string, unknown>>;
+
+  return rows.map(rowToComment);
+}
+
+/**
+ * Get cached comment by ID
+ */
+export function getCachedComment(id: string): Comment | null {
+  const db = getDatabase();
+  const row = db.query("SELECT * FROM comments WHERE id = ?").get(id) as Record<
+    string,
+    unknown
+  > | null;
+  return row ? rowToComment(row) : null;
+}
+
+/**
+ * Delete a comment from cache
+ */
+export function deleteCachedComment(id: string): void {
+  const db = getDatabase();
+  db.run("DELETE FROM comments WHERE id = ?", [id]);
+}
+
+/**
+ * Convert a comments table row to a Comment
+ */
+function rowToComment(row: Record<string, unknown>): Comment {
+  const comment: Comment = {
+    id: row.id as string,
+    issue_id: row.issue_id as string,
+    body: row.body as string,
+    created_at: row.created_at as string,
+    updated_at: row.updated_at as string,
+  };
+  if (row.author) {
+    comment.author = row.author as string;
+  }
+  return comment;
+}
+
 /**
  * Get issues that are blocked by open issues
  * Also includes children of blocked issues (they inherit blocking from parent)
@@ -620,12 +1305,18 @@ export function queueOutboxItem(
   payload: Record<string, unknown>
 ): number {
   const db = getDatabase();
+  // Temporary IDs that were already created are queued under their real identifier
+  const resolved = mapPayloadIssueIds(payload, resolveTempId);
+  if (operation === "update" && !resolved.base) {
+    const base = updateBaseFor(resolved);
+    if (base) resolved.base = base;
+  }
   db.run(
     `
     INSERT INTO outbox (operation, payload)
     VALUES (?, ?)
   `,
-    [operation, JSON.stringify(payload)]
+    [operation, JSON.stringify(resolved)]
   );
 
   // Get last insert rowid
@@ -634,22 +1325,95 @@ export function queueOutboxItem(
 }
 
 /**
- * Get pending outbox items
+ * Cached version of the fields an update changes, so the worker can tell if
+ * someone else edited them in Linear after it was queued
+ */
+function updateBaseFor(payload: Record<string, unknown>): UpdateBase | null {
+  const cached = typeof payload.issueId === "string" ? getCachedIssue(payload.issueId) : null;
+  const fields = UPDATE_CONFLICT_FIELDS.filter((field) => payload[field] !== undefined);
+  if (!cached || fields.length === 0) return null;
+
+  const base: UpdateBase = { updated_at: cached.updated_at };
+  for (const field of fields) {
+    base[field] = cached[field] ?? null;
+  }
+  return base;
+}
+
+/**
+ * After an update reached Linear, make later queued updates of the same issue
+ * treat the fields it set as their base (it was our edit, not a conflicting one)
+ */
+export function rebaseQueuedUpdates(applied: Record<string, unknown>): void {
+  const db = getDatabase();
+  const rows = db
+    .query("SELECT id, payload FROM outbox WHERE operation = 'update' AND dead_at IS NULL")
+    .all() as Array<{ id: number; payload: string }>;
+
+  for (const row of rows) {
+    const payload = JSON.parse(row.payload) as Record<string, unknown>;
+    const base = payload.base as UpdateBase | undefined;
+    if (!base || payload.issueId !== applied.issueId) continue;
+    for (const field of UPDATE_CONFLICT_FIELDS) {
+      if (field in base && applied[field] !== undefined) {
+        base[field] = applied[field] as UpdateBase[typeof field];
+      }
+    }
+    db.run("UPDATE outbox SET payload = ? WHERE id = ?", [JSON.stringify(payload), row.id]);
+  }
+}
+
+/**
+ * Get pending outbox items (excludes dead-lettered items)
  */
 export function getPendingOutboxItems(): OutboxItem[] {
   const db = getDatabase();
-  const rows = db.query("SELECT * FROM outbox ORDER BY id ASC").all() as Array<
-    Record<string, unknown>
-  >;
+  const rows = db
+    .query("SELECT * FROM outbox WHERE dead_at IS NULL ORDER BY id ASC")
+    .all() as Array<Record<string, unknown>>;
 
-  return rows.map((row) => ({
+  return rows.map(rowToOutboxItem);
+}
+
+/**
+ * Get dead-lettered outbox items (failed permanently, no longer retried)
+ */
+export function getDeadOutboxItems(): OutboxItem[] {
+  const db = getDatabase();
+  const rows = db
+    .query("SELECT * FROM outbox WHERE dead_at IS NOT NULL ORDER BY id ASC")
+    .all() as Array<Record<string, unknown>>;
+
+  return rows.map(rowToOutboxItem);
+}
+
+/**
+ * Get a single outbox item by ID
+ */
+export function getOutboxItem(id: number): OutboxItem | null {
+  const db = getDatabase();
+  const row = db.query("SELECT * FROM outbox WHERE id = ?").get(id) as Record<
+    string,
+    unknown
+  > | null;
+  return row ? rowToOutboxItem(row) : null;
+}
+
+/**
+ * Convert an outbox table row to an OutboxItem
+ */
+function rowToOutboxItem(row: Record<string, unknown>): OutboxItem {
+  return {
     id: row.id as number,
     operation: row.operation as OutboxItem["operation"],
     payload: JSON.parse(row.payload as string),
     created_at: row.created_at as string,
     retry_count: row.retry_count as number,
-    last_error: row.last_error as string | undefined,
-  }));
+    last_error: (row.last_error as string | null) ?? undefined,
+    last_attempt_at: (row.last_attempt_at as string | null) ?? undefined,
+    dead_at: (row.dead_at as string | null) ?? undefined,
+    conflict_at: (row.conflict_at as string | null) ?? undefined,
+  };
 }
 
 /**
@@ -661,20 +1425,53 @@ export function removeOutboxItem(id: number): void {
 }
 
 /**
- * Update outbox item with error
+ * Update outbox item with error, optionally moving it to the dead-letter state
  */
-export function updateOutboxItemError(id: number, error: string): void {
+export function updateOutboxItemError(
+  id: number,
+  error: string,
+  dead: boolean = false,
+  conflict: boolean = false
+): void {
   const db = getDatabase();
+  const now = new Date().toISOString();
   db.run(
     `
     UPDATE outbox 
-    SET retry_count = retry_count + 1, last_error = ?
+    SET retry_count = retry_count + 1, last_error = ?, last_attempt_at = ?, dead_at = ?, conflict_at = ?
     WHERE id = ?
   `,
-    [error, id]
+    [error, now, dead || conflict ? now : null, conflict ? now : null, id]
+  );
+}
+
+/**
+ * Note why an outbox item is waiting, without counting it as a failed attempt
+ */
+export function updateOutboxItemWaiting(id: number, reason: string): void {
+  const db = getDatabase();
+  db.run("UPDATE outbox SET last_error = ? WHERE id = ?", [reason, id]);
+}
+
+/**
+ * Return a dead-lettered outbox item to the queue with a fresh set of attempts
+ */
+export function reviveOutboxItem(id: number): void {
+  const db = getDatabase();
+  db.run(
+    "UPDATE outbox SET dead_at = NULL, conflict_at = NULL, retry_count = 0, last_attempt_at = NULL WHERE id = ?",
+    [id]
   );
 }
 
+/**
+ * Replace the payload of a queued outbox item (e.g. editing a comment that hasn't synced yet)
+ */
+export function updateOutboxItemPayload(id: number, payload: Record<string, unknown>): void {
+  const db = getDatabase();
+  db.run("UPDATE outbox SET payload = ? WHERE id = ?", [JSON.stringify(payload), id]);
+}
+
 /**
  * Clear cached data for sync refresh
  * Preserves blocks/related dependencies (only cleared by individual --sync)
@@ -683,6 +1480,8 @@ export function clearCache(): void {
   const db = getDatabase();
   db.exec(`
     DELETE FROM issues;
+    DELETE FROM issues_fts;
+    DELETE FROM issue_labels;
     DELETE FROM dependencies WHERE type = 'parent-child';
     DELETE FROM labels;
     DELETE FROM projects;
@@ -693,13 +1492,25 @@ export function clearCache(): void {
 
 /**
  * Clear issues cache (before full sync to remove stale issues from other repos)
+ * With a team key, only that team's issues (and any without a team) are cleared
  */
-export function clearIssuesCache(): void {
+export function clearIssuesCache(team?: string): void {
   const db = getDatabase();
-  db.exec(`
-    DELETE FROM issues;
-    DELETE FROM dependencies WHERE type = 'parent-child';
-  `);
+  // Issues still queued for creation (TMP-xxx) only exist locally, so keep them
+  const scope = team
+    ? "SELECT id FROM issues WHERE id NOT LIKE 'TMP-%' AND (team = ?1 OR team IS NULL)"
+    : "SELECT id FROM issues WHERE id NOT LIKE 'TMP-%'";
+  const params = team ? [team] : [];
+  const transaction = db.transaction(() => {
+    db.run(`DELETE FROM issues_fts WHERE id IN (${scope})`, params);
+    db.run(`DELETE FROM issue_labels WHERE issue_id IN (${scope})`, params);
+    db.run(
+      `DELETE FROM dependencies WHERE type = 'parent-child' AND issue_id IN (${scope})`,
+      params
+    );
+    db.run(`DELETE FROM issues WHERE id IN (${scope})`, params);
+  });
+  transaction();
   requestJsonlExport();
 }
 
@@ -709,7 +1520,10 @@ export function clearIssuesCache(): void {
 export function deleteCachedIssue(issueId: string): void {
   const db = getDatabase();
   db.run("DELETE FROM issues WHERE id = ?", [issueId]);
+  db.run("DELETE FROM issues_fts WHERE id = ?", [issueId]);
   db.run("DELETE FROM dependencies WHERE issue_id = ? OR depends_on_id = ?", [issueId, issueId]);
+  db.run("DELETE FROM comments WHERE issue_id = ?", [issueId]);
+  db.run("DELETE FROM issue_labels WHERE issue_id = ?", [issueId]);
   requestJsonlExport();
 }
 
@@ -728,11 +1542,14 @@ export function cacheLabel(id: string, name: string, teamId?: string): void {
 }
 
 /**
- * Get label ID by name
+ * Get a team's label ID by name (matched case-insensitively, like Linear)
+ * Labels are per team: another team's label of the same name is a different label
  */
-export function getLabelIdByName(name: string): string | null {
+export function getLabelIdByName(name: string, teamId: string): string | null {
   const db = getDatabase();
-  const row = db.query("SELECT id FROM labels WHERE name = ?").get(name) as { id: string } | null;
+  const row = db
+    .query("SELECT id FROM labels WHERE name = ? COLLATE NOCASE AND team_id = ?")
+    .get(name, teamId) as { id: string } | null;
   return row?.id || null;
 }
 
@@ -751,47 +1568,228 @@ export function cacheProject(id: string, name: string, teamId?: string): void {
 }
 
 /**
- * Get project ID by name
+ * Get the ID of a team's project by name, throwing if the name is ambiguous
  */
-export function getProjectIdByName(name: string): string | null {
+export function getProjectIdByName(name: string, teamId: string): string | null {
   const db = getDatabase();
-  const row = db.query("SELECT id FROM projects WHERE name = ?").get(name) as { id: string } | null;
-  return row?.id || null;
+  const rows = db
+    .query("SELECT id FROM projects WHERE name = ? AND team_id = ?")
+    .all(name, teamId) as Array<{ id: string }>;
+  if (rows.length > 1) {
+    throw new Error(`Several Linear projects are named '${name}'. Rename all but one`);
+  }
+  return rows[0]?.id || null;
 }
 
 /**
- * Get all cached issue IDs
+ * Replace a team's cached cycles
  */
-export function getAllCachedIssueIds(): string[] {
+export function cacheCycles(teamId: string, cycles: Cycle[]): void {
   const db = getDatabase();
-  const rows = db.query("SELECT id FROM issues").all() as Array<{ id: string }>;
-  return rows.map((r) => r.id);
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO cycles (id, team_id, team, number, name, starts_at, ends_at, completed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    db.run("DELETE FROM cycles WHERE team_id = ?", [teamId]);
+    for (const cycle of cycles) {
+      insert.run(
+        cycle.id,
+        teamId,
+        cycle.team || null,
+        cycle.number,
+        cycle.name || null,
+        cycle.starts_at,
+        cycle.ends_at,
+        cycle.completed_at || null
+      );
+    }
+  })();
 }
 
 /**
- * Prune issues that are no longer in the remote (stale).
- * Called after full sync to remove issues that were deleted or moved out of scope.
- * @param validIds Set of issue IDs that are still valid (from remote)
- * @returns Number of issues pruned
+ * Convert a cycles table row to a Cycle
  */
-export function pruneStaleIssues(validIds: Set<string>): number {
+function rowToCycle(row: Record<string, unknown>): Cycle {
+  const cycle: Cycle = {
+    id: row.id as string,
+    team_id: row.team_id as string,
+    number: row.number as number,
+    starts_at: row.starts_at as string,
+    ends_at: row.ends_at as string,
+  };
+  if (row.team) cycle.team = row.team as string;
+  if (row.name) cycle.name = row.name as string;
+  if (row.completed_at) cycle.completed_at = row.completed_at as string;
+  return cycle;
+}
+
+/**
+ * Get cached cycles, oldest first (all teams unless teamId is given)
+ */
+export function getCachedCycles(teamId?: string): Cycle[] {
   const db = getDatabase();
-  const allIds = getAllCachedIssueIds();
-  let pruned = 0;
+  const rows = (
+    teamId
+      ? db.query("SELECT * FROM cycles WHERE team_id = ? ORDER BY starts_at").all(teamId)
+      : db.query("SELECT * FROM cycles ORDER BY starts_at").all()
+  ) as Array<Record<string, unknown>>;
+  return rows.map(rowToCycle);
+}
+
+/**
+ * Get a cached cycle by its Linear UUID
+ */
+export function getCachedCycleById(id: string): Cycle | null {
+  const db = getDatabase();
+  const row = db.query("SELECT * FROM cycles WHERE id = ?").get(id) as Record<
+    string,
+    unknown
+  > | null;
+  return row ? rowToCycle(row) : null;
+}
+
+/**
+ * Cache a milestone
+ */
+export function cacheMilestone(milestone: Milestone): void {
+  const db = getDatabase();
+  db.run(
+    `
+    INSERT OR REPLACE INTO milestones (id, project_id, name, target_date, sort_order)
+    VALUES (?, ?, ?, ?, ?)
+  `,
+    [
+      milestone.id,
+      milestone.project_id,
+      milestone.name,
+      milestone.target_date || null,
+      milestone.sort_order,
+    ]
+  );
+}
 
-  for (const id of allIds) {
-    if (!validIds.has(id)) {
-      db.run("DELETE FROM issues WHERE id = ?", [id]);
-      db.run("DELETE FROM dependencies WHERE issue_id = ? OR depends_on_id = ?", [id, id]);
-      pruned++;
+/**
+ * Replace a project's cached milestones
+ */
+export function cacheMilestones(projectId: string, milestones: Milestone[]): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.run("DELETE FROM milestones WHERE project_id = ?", [projectId]);
+    for (const milestone of milestones) {
+      cacheMilestone(milestone);
     }
-  }
+  })();
+}
+
+/**
+ * Convert a milestones table row to a Milestone
+ */
+function rowToMilestone(row: Record<string, unknown>): Milestone {
+  const milestone: Milestone = {
+    id: row.id as string,
+    project_id: row.project_id as string,
+    name: row.name as string,
+    sort_order: row.sort_order as number,
+  };
+  if (row.target_date) milestone.target_date = row.target_date as string;
+  return milestone;
+}
+
+/**
+ * Get cached milestones in Linear's order
+ */
+export function getCachedMilestones(): Milestone[] {
+  const db = getDatabase();
+  const rows = db.query("SELECT * FROM milestones ORDER BY sort_order, name").all() as Array<
+    Record<string, unknown>
+  >;
+  return rows.map(rowToMilestone);
+}
 
-  if (pruned > 0) {
+/**
+ * Get a cached milestone by name (case-insensitive)
+ */
+export function getCachedMilestoneByName(name: string): Milestone | null {
+  const db = getDatabase();
+  const row = db
+    .query("SELECT * FROM milestones WHERE name = ? COLLATE NOCASE")
+    .get(name) as Record<string, unknown> | null;
+  return row ? rowToMilestone(row) : null;
+}
+
+/**
+ * Get a cached milestone by its Linear UUID
+ */
+export function getCachedMilestoneById(id: string): Milestone | null {
+  const db = getDatabase();
+  const row = db.query("SELECT * FROM milestones WHERE id = ?").get(id) as Record<
+    string,
+    unknown
+  > | null;
+  return row ? rowToMilestone(row) : null;
+}
+
+/**
+ * Get all cached issue IDs
+ * With a team key, only that team's issues (and any without a team)
+ */
+export function getAllCachedIssueIds(team?: string): string[] {
+  const db = getDatabase();
+  const rows = (
+    team
+      ? db.query("SELECT id FROM issues WHERE team = ? OR team IS NULL").all(team)
+      : db.query("SELECT id FROM issues").all()
+  ) as Array<{ id: string }>;
+  return rows.map((r) => r.id);
+}
+
+/**
+ * Delete issues and everything cached about them
+ */
+function deleteIssueRows(db: Database, ids: string[]): void {
+  for (const id of ids) {
+    db.run("DELETE FROM issues WHERE id = ?", [id]);
+    db.run("DELETE FROM issues_fts WHERE id = ?", [id]);
+    db.run("DELETE FROM dependencies WHERE issue_id = ? OR depends_on_id = ?", [id, id]);
+    db.run("DELETE FROM comments WHERE issue_id = ?", [id]);
+    db.run("DELETE FROM issue_labels WHERE issue_id = ?", [id]);
+  }
+  if (ids.length > 0) {
     requestJsonlExport();
   }
+}
 
-  return pruned;
+/**
+ * Prune issues that are no longer in the remote (stale).
+ * Called after full sync to remove issues that were deleted or moved out of scope.
+ * @param validIds Set of issue IDs that are still valid (from remote)
+ * @param team Team that was synced; other teams' issues are left alone
+ * @returns Number of issues pruned
+ */
+export function pruneStaleIssues(validIds: Set<string>, team?: string): number {
+  const stale = getAllCachedIssueIds(team).filter((id) => !validIds.has(id) && !isTempId(id));
+  deleteIssueRows(getDatabase(), stale);
+  return stale.length;
+}
+
+/**
+ * Prune issues of teams that are no longer synced
+ * @param teams Keys of the teams that were synced
+ * @returns Number of issues pruned
+ */
+export function pruneOtherTeams(teams: string[]): number {
+  if (teams.length === 0) return 0;
+  const db = getDatabase();
+  const placeholders = teams.map(() => "?").join(", ");
+  const rows = db
+    .query(`SELECT id FROM issues WHERE team IS NOT NULL AND team NOT IN (${placeholders})`)
+    .all(...teams) as Array<{ id: string }>;
+  deleteIssueRows(
+    db,
+    rows.map((r) => r.id)
+  );
+  return rows.length;
 }
 
 /**
@@ -0,0 +1,251 @@
+/**
+ * Cycle detection for blocking and parent-child dependencies
+ *
+ * An issue can't be ready while anything blocking it, or blocking one of its
+ * ancestors, is open (see getBlockedIssueIds). So both kinds of link form one
+ * graph: "A blocks B" is an edge A → B and "P is the parent of C" is an edge
+ * P → C. Any cycle in it keeps every issue on it out of lb ready for good.
+ */
+
+import { getDatabase } from "./database.js";
+
+/**
+ * A link between two issues, pointing from the issue that has to finish first.
+ * Related links never block anything; they are only checked for self-references.
+ */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  kind: "blocks" | "parent" | "related";
+}
+
+/**
+ * A problem found by findDependencyProblems
+ */
+export interface DependencyProblem {
+  type: "cycle" | "self_reference";
+  // Issues along the cycle, ending where it started
+  issues: string[];
+  description: string;
+}
+
+/**
+ * Thrown when a dependency write would create a cycle or self-reference
+ */
+export class DependencyCycleError extends Error {
+  constructor(public cycle: DependencyEdge[]) {
+    super(
+      cycle.length === 1
+        ? `Refusing to add dependency: ${describeEdge(cycle[0])} (an issue can't depend on itself)`
+        : `Refusing to add dependency: it would create a cycle (${describeCycle(cycle)})`
+    );
+    this.name = "DependencyCycleError";
+  }
+}
+
+type Graph = Map<string, DependencyEdge[]>;
+
+/**
+ * Describe one link in words
+ */
+function describeEdge(edge: DependencyEdge): string {
+  switch (edge.kind) {
+    case "blocks":
+      return `${edge.from} blocks ${edge.to}`;
+    case "parent":
+      return `${edge.from} is the parent of ${edge.to}`;
+    default:
+      return `${edge.from} is related to ${edge.to}`;
+  }
+}
+
+/**
+ * Describe a cycle as its links, e.g. "A blocks B, B blocks A"
+ */
+export function describeCycle(cycle: DependencyEdge[]): string {
+  return cycle.map(describeEdge).join(", ");
+}
+
+/**
+ * Edges for an issue's --blocks/--blocked-by deps and --parent
+ */
+export function dependencyEdges(
+  issueId: string,
+  deps: Array<{ type: string; targetId: string }>,
+  parentId?: string
+): DependencyEdge[] {
+  const edges: DependencyEdge[] = deps.map((dep) => {
+    if (dep.type === "blocks") return { from: issueId, to: dep.targetId, kind: "blocks" };
+    if (dep.type === "blocked-by") return { from: dep.targetId, to: issueId, kind: "blocks" };
+    return { from: issueId, to: dep.targetId, kind: "related" };
+  });
+  if (parentId) {
+    edges.push({ from: parentId, to: issueId, kind: "parent" });
+  }
+  return edges;
+}
+
+/**
+ * Load blocking and parent-child links from the cache
+ */
+function loadGraph(): Graph {
+  const db = getDatabase();
+  const rows = db
+    .query(
+      "SELECT issue_id, depends_on_id, type FROM dependencies WHERE type IN ('blocks', 'parent-child')"
+    )
+    .all() as Array<{ issue_id: string; depends_on_id: string; type: string }>;
+
+  const graph: Graph = new Map();
+  for (const row of rows) {
+    // parent-child rows point from child to parent; blocking flows parent to child
+    addEdge(
+      graph,
+      row.type === "blocks"
+        ? { from: row.issue_id, to: row.depends_on_id, kind: "blocks" }
+        : { from: row.depends_on_id, to: row.issue_id, kind: "parent" }
+    );
+  }
+  return graph;
+}
+
+function addEdge(graph: Graph, edge: DependencyEdge): void {
+  const edges = graph.get(edge.from);
+  if (edges) {
+    edges.push(edge);
+  } else {
+    graph.set(edge.from, [edge]);
+  }
+}
+
+/**
+ * Shortest chain of links from start to goal (breadth-first), or null
+ */
+function findPath(
+  graph: Graph,
+  start: string,
+  goal: string,
+  within?: Set<string>
+): DependencyEdge[] | null {
+  const via = new Map<string, DependencyEdge | null>([[start, null]]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (node === goal) {
+      const path: DependencyEdge[] = [];
+      for (let edge = via.get(node); edge; edge = via.get(edge.from)) {
+        path.unshift(edge);
+      }
+      return path;
+    }
+    for (const edge of graph.get(node) || []) {
+      if (via.has(edge.to) || (within && !within.has(edge.to))) continue;
+      via.set(edge.to, edge);
+      queue.push(edge.to);
+    }
+  }
+  return null;
+}
+
+/**
+ * Throw DependencyCycleError if adding these links (in order) would create a
+ * cycle with each other or with the cached dependencies
+ */
+export function assertNoDependencyCycle(edges: DependencyEdge[]): void {
+  const graph = loadGraph();
+  for (const edge of edges) {
+    if (edge.from === edge.to) {
+      throw new DependencyCycleError([edge]);
+    }
+    if (edge.kind === "related") continue;
+
+    const back = findPath(graph, edge.to, edge.from);
+    if (back) {
+      throw new DependencyCycleError([edge, ...back]);
+    }
+    addEdge(graph, edge);
+  }
+}
+
+/**
+ * Strongly connected components of the graph (Tarjan)
+ */
+function stronglyConnected(graph: Graph): string[][] {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let next = 0;
+
+  const visit = (node: string): void => {
+    index.set(node, next);
+    low.set(node, next);
+    next++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const { to } of graph.get(node) || []) {
+      if (!index.has(to)) {
+        visit(to);
+        low.set(node, Math.min(low.get(node)!, low.get(to)!));
+      } else if (onStack.has(to)) {
+        low.set(node, Math.min(low.get(node)!, index.get(to)!));
+      }
+    }
+
+    if (low.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  for (const node of graph.keys()) {
+    if (!index.has(node)) visit(node);
+  }
+  return components;
+}
+
+/**
+ * Scan the cached dependencies for self-references and cycles.
+ * Each group of issues caught in cycles is reported once, with one cycle through it.
+ */
+export function findDependencyProblems(): DependencyProblem[] {
+  const db = getDatabase();
+  const problems: DependencyProblem[] = [];
+
+  const selfRows = db
+    .query("SELECT issue_id, type FROM dependencies WHERE issue_id = depends_on_id")
+    .all() as Array<{ issue_id: string; type: string }>;
+  for (const row of selfRows) {
+    problems.push({
+      type: "self_reference",
+      issues: [row.issue_id, row.issue_id],
+      description: `${row.issue_id} has a ${row.type} dependency on itself`,
+    });
+  }
+
+  const graph = loadGraph();
+  for (const component of stronglyConnected(graph)) {
+    if (component.length < 2) continue;
+
+    const members = new Set(component);
+    const start = [...component].sort()[0];
+    const first = (graph.get(start) || []).find((edge) => members.has(edge.to))!;
+    const cycle = [first, ...(findPath(graph, first.to, start, members) || [])];
+    problems.push({
+      type: "cycle",
+      issues: [start, ...cycle.map((edge) => edge.to)],
+      description: describeCycle(cycle),
+    });
+  }
+
+  return problems;
+}
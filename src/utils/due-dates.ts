@@ -0,0 +1,77 @@
+/**
+ * Due dates: parsing --due values and spotting overdue work
+ * Due dates are calendar days (YYYY-MM-DD) in local time, like Linear's dueDate
+ */
+
+import type { Issue } from "../types.js";
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * A day as YYYY-MM-DD in local time
+ */
+export function localDate(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Parse a due date: YYYY-MM-DD, today, tomorrow, a weekday (the next one),
+ * or an offset like +3d or +2w
+ * Returns { date, error } - check error first
+ */
+export function parseDueDate(
+  value: string,
+  from: Date = new Date()
+): { date?: string; error?: string } {
+  const input = value.trim().toLowerCase();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(input)) {
+    const [year, month, day] = input.split("-").map(Number);
+    const date = new Date(year, month - 1, day);
+    // new Date() rolls over invalid days (2026-02-30 -> March 2)
+    if (date.getMonth() === month - 1 && date.getDate() === day) {
+      return { date: input };
+    }
+  } else if (input === "today") {
+    return { date: localDate(from) };
+  } else if (input === "tomorrow") {
+    return { date: localDate(addDays(from, 1)) };
+  } else if (WEEKDAYS.includes(input)) {
+    const ahead = (WEEKDAYS.indexOf(input) - from.getDay() + 7) % 7 || 7;
+    return { date: localDate(addDays(from, ahead)) };
+  } else {
+    const offset = input.match(/^([+-]\d+)([dw])$/);
+    if (offset) {
+      const days = parseInt(offset[1]) * (offset[2] === "w" ? 7 : 1);
+      return { date: localDate(addDays(from, days)) };
+    }
+  }
+
+  return {
+    error: `Invalid date '${value}'. Use YYYY-MM-DD, today, tomorrow, a weekday, or an offset like +3d or +2w`,
+  };
+}
+
+/**
+ * Check if an open issue is past its due date
+ */
+export function isOverdue(issue: Issue, today: string = localDate()): boolean {
+  return !!issue.due_date && issue.status !== "closed" && issue.due_date < today;
+}
+
+/**
+ * Marker for human output, e.g. " ⚠ overdue (2026-03-01)" or " (due 2026-03-05)"
+ */
+export function formatDue(issue: Issue, today: string = localDate()): string {
+  if (!issue.due_date || issue.status === "closed") return "";
+  if (isOverdue(issue, today)) return ` ⚠ overdue (${issue.due_date})`;
+  return issue.due_date === today ? " (due today)" : ` (due ${issue.due_date})`;
+}
@@ -0,0 +1,124 @@
+/**
+ * Duplicate detection for new issues
+ * Compares a prospective title/description against cached open issues
+ */
+
+import { getCachedIssues } from "./database.js";
+
+/**
+ * Similarity at or above which an existing issue is reported as a likely duplicate
+ */
+export const DUPLICATE_THRESHOLD = 0.65;
+
+/**
+ * A cached issue that looks like the one being created
+ */
+export interface DuplicateCandidate {
+  id: string;
+  title: string;
+  status: string;
+  similarity: number;
+}
+
+// Words too common in issue titles to say anything about similarity
+const STOPWORDS = new Set([
+  "an",
+  "and",
+  "the",
+  "to",
+  "of",
+  "in",
+  "on",
+  "for",
+  "with",
+  "is",
+  "it",
+  "be",
+  "when",
+  "should",
+]);
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Significant words of a text, with plural/verb "s" endings stripped ("crashes" -> "crash")
+ */
+function words(text: string): Set<string> {
+  return new Set(
+    normalize(text)
+      .split(" ")
+      .filter((w) => w && !STOPWORDS.has(w))
+      .map((w) => (w.length > 4 && !w.endsWith("ss") ? w.replace(/(es|s)$/, "") : w))
+  );
+}
+
+/**
+ * Character trigrams of a text (tolerates typos and plural/tense differences)
+ */
+function trigrams(text: string): Set<string> {
+  const padded = `  ${normalize(text)} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient of two sets (0 = disjoint, 1 = identical)
+ */
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Similarity of two issues from their titles and (when both have one) descriptions.
+ * Titles dominate; descriptions only nudge the score.
+ */
+export function issueSimilarity(
+  a: { title: string; description?: string },
+  b: { title: string; description?: string }
+): number {
+  if (normalize(a.title) === normalize(b.title)) return 1;
+
+  const titleScore =
+    (dice(trigrams(a.title), trigrams(b.title)) + dice(words(a.title), words(b.title))) / 2;
+
+  if (!a.description || !b.description) return titleScore;
+
+  const descriptionScore = dice(words(a.description), words(b.description));
+  return 0.8 * titleScore + 0.2 * descriptionScore;
+}
+
+/**
+ * Find cached open issues that are likely duplicates of a new issue, most similar first
+ */
+export function findDuplicateCandidates(
+  issue: { title: string; description?: string },
+  threshold: number = DUPLICATE_THRESHOLD
+): DuplicateCandidate[] {
+  return getCachedIssues()
+    .filter((existing) => existing.status !== "closed")
+    .map((existing) => ({
+      id: existing.id,
+      title: existing.title,
+      status: existing.status,
+      similarity: Math.round(issueSimilarity(issue, existing) * 100) / 100,
+    }))
+    .filter((candidate) => candidate.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity);
+}
@@ -0,0 +1,227 @@
+/**
+ * Dependency graph export for lb dep graph (Graphviz DOT and Mermaid)
+ */
+
+import {
+  getCachedIssue,
+  getDatabase,
+  getDependencies,
+  getInverseDependencies,
+} from "./database.js";
+import type { Dependency, Issue } from "../types.js";
+
+export type GraphFormat = "dot" | "mermaid";
+
+export const GRAPH_FORMATS: GraphFormat[] = ["dot", "mermaid"];
+
+/**
+ * Issues and links to draw (issues missing from the cache are drawn by ID only)
+ */
+interface DependencyGraph {
+  nodes: Array<{ id: string; issue: Issue | null }>;
+  edges: Dependency[];
+}
+
+// Fill colors by status (custom statuses get CUSTOM_STATUS_FILL)
+const STATUS_FILL: Record<string, string> = {
+  open: "#ffffff",
+  in_progress: "#fff3bf",
+  closed: "#e9ecef",
+};
+const CUSTOM_STATUS_FILL = "#d0ebff";
+
+// Border colors for urgent and high priority
+const PRIORITY_STROKE: Record<number, string> = {
+  0: "#e03131",
+  1: "#f08c00",
+};
+
+const EDGE_LABELS: Record<Dependency["type"], string> = {
+  blocks: "blocks",
+  "parent-child": "parent of",
+  related: "related",
+  "discovered-from": "discovered from",
+};
+
+const MAX_TITLE_LENGTH = 40;
+
+/**
+ * Key for a link, with related links normalized so each pair is drawn once
+ */
+function edgeKey(dep: Dependency): string {
+  if (dep.type === "related") {
+    const [a, b] = [dep.issue_id, dep.depends_on_id].sort();
+    return `related:${a}:${b}`;
+  }
+  return `${dep.type}:${dep.issue_id}:${dep.depends_on_id}`;
+}
+
+/**
+ * Collect the whole dependency graph, or the connected component around one issue
+ */
+export function collectDependencyGraph(rootId?: string): DependencyGraph {
+  let deps: Dependency[];
+
+  if (rootId) {
+    deps = [];
+    const seen = new Set([rootId]);
+    const queue = [rootId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const dep of [...getDependencies(id), ...getInverseDependencies(id)]) {
+        deps.push(dep);
+        for (const next of [dep.issue_id, dep.depends_on_id]) {
+          if (!seen.has(next)) {
+            seen.add(next);
+            queue.push(next);
+          }
+        }
+      }
+    }
+  } else {
+    deps = getDatabase().query("SELECT * FROM dependencies").all() as Dependency[];
+  }
+
+  const edges = new Map<string, Dependency>();
+  for (const dep of deps) {
+    edges.set(edgeKey(dep), dep);
+  }
+
+  const ids = new Set<string>(rootId ? [rootId] : []);
+  for (const dep of edges.values()) {
+    ids.add(dep.issue_id);
+    ids.add(dep.depends_on_id);
+  }
+
+  const byId = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+  return {
+    nodes: [...ids].sort(byId).map((id) => ({ id, issue: getCachedIssue(id) })),
+    edges: [...edges.values()].sort(
+      (a, b) => byId(a.issue_id, b.issue_id) || byId(a.depends_on_id, b.depends_on_id)
+    ),
+  };
+}
+
+/**
+ * Draw parents above their subtasks: parent-child rows point from child to parent
+ */
+function edgeEnds(dep: Dependency): [string, string] {
+  return dep.type === "parent-child"
+    ? [dep.depends_on_id, dep.issue_id]
+    : [dep.issue_id, dep.depends_on_id];
+}
+
+function shortTitle(title: string): string {
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
+
+function statusFill(status: string): string {
+  return STATUS_FILL[status] || CUSTOM_STATUS_FILL;
+}
+
+/**
+ * Render as a Graphviz digraph
+ */
+function renderDot(graph: DependencyGraph): string {
+  const quote = (value: string) =>
+    `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+  const lines = [
+    "digraph dependencies {",
+    "  rankdir=LR;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  for (const { id, issue } of graph.nodes) {
+    if (!issue) {
+      lines.push(`  ${quote(id)} [label=${quote(id)}, style="rounded,dashed"];`);
+      continue;
+    }
+    const attrs = [
+      `label=${quote(`${id}: ${shortTitle(issue.title)}\nP${issue.priority} · ${issue.status}`)}`,
+      `fillcolor=${quote(statusFill(issue.status))}`,
+    ];
+    if (issue.status === "closed") attrs.push(`fontcolor="#868e96"`);
+    const stroke = PRIORITY_STROKE[issue.priority];
+    if (stroke) attrs.push(`color=${quote(stroke)}`, "penwidth=2");
+    lines.push(`  ${quote(id)} [${attrs.join(", ")}];`);
+  }
+
+  for (const dep of graph.edges) {
+    const [from, to] = edgeEnds(dep);
+    const attrs = [`label=${quote(EDGE_LABELS[dep.type])}`];
+    switch (dep.type) {
+      case "blocks":
+        attrs.push(`color="#e03131"`);
+        break;
+      case "parent-child":
+        attrs.push("style=dashed", `color="#868e96"`);
+        break;
+      case "related":
+        attrs.push("style=dotted", "dir=none");
+        break;
+      default:
+        attrs.push("style=dotted");
+    }
+    lines.push(`  ${quote(from)} -> ${quote(to)} [${attrs.join(", ")}];`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Render as a Mermaid flowchart (for Markdown, e.g. PR descriptions)
+ */
+function renderMermaid(graph: DependencyGraph): string {
+  // Mermaid node IDs can't contain dashes; labels keep the real ID
+  const nodeId = (id: string) => id.replace(/[^A-Za-z0-9_]/g, "_");
+  const label = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = ["flowchart LR"];
+
+  for (const { id, issue } of graph.nodes) {
+    const text = issue
+      ? `${id}: ${shortTitle(issue.title)}<br/>P${issue.priority} · ${issue.status}`
+      : id;
+    lines.push(`  ${nodeId(id)}["${label(text)}"]`);
+  }
+
+  const redLinks: number[] = [];
+  graph.edges.forEach((dep, index) => {
+    const [from, to] = edgeEnds(dep).map(nodeId);
+    const text = EDGE_LABELS[dep.type];
+    switch (dep.type) {
+      case "blocks":
+        redLinks.push(index);
+        lines.push(`  ${from} -->|${text}| ${to}`);
+        break;
+      case "related":
+        lines.push(`  ${from} ---|${text}| ${to}`);
+        break;
+      default:
+        lines.push(`  ${from} -.->|${text}| ${to}`);
+    }
+  });
+
+  for (const { id, issue } of graph.nodes) {
+    const styles = issue
+      ? [`fill:${statusFill(issue.status)}`]
+      : ["fill:#ffffff", "stroke-dasharray:4 4"];
+    if (issue?.status === "closed") styles.push("color:#868e96");
+    const stroke = issue ? PRIORITY_STROKE[issue.priority] : undefined;
+    if (stroke) styles.push(`stroke:${stroke}`, "stroke-width:2px");
+    lines.push(`  style ${nodeId(id)} ${styles.join(",")}`);
+  }
+  if (redLinks.length > 0) {
+    lines.push(`  linkStyle ${redLinks.join(",")} stroke:#e03131`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a dependency graph in the given format
+ */
+export function renderDependencyGraph(graph: DependencyGraph, format: GraphFormat): string {
+  return format === "dot" ? renderDot(graph) : renderMermaid(graph);
+}
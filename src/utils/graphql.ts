@@ -4,13 +4,14 @@
 
 import { GraphQLClient } from "graphql-request";
 import { getApiKey } from "./config.js";
+import { rateLimitedFetch } from "./rate-limit.js";
 
 const LINEAR_ENDPOINT = "https://api.linear.app/graphql";
 
 let client: GraphQLClient | null = null;
 
 /**
- * Get GraphQL client singleton
+ * Get GraphQL client singleton (requests are paced and retried around Linear's rate limits)
  */
 export function getGraphQLClient(): GraphQLClient {
   if (!client) {
@@ -19,6 +20,7 @@ export function getGraphQLClient(): GraphQLClient {
       headers: {
         Authorization: apiKey,
       },
+      fetch: rateLimitedFetch as typeof fetch,
     });
   }
   return client;
@@ -38,6 +40,19 @@ export const ISSUE_FRAGMENT = `
   title
   description
   priority
+  estimate
+  dueDate
+  cycle {
+    id
+    number
+  }
+  projectMilestone {
+    id
+    name
+  }
+  team {
+    key
+  }
   createdAt
   updatedAt
   completedAt
@@ -64,6 +79,18 @@ export const ISSUE_FRAGMENT = `
   }
 `;
 
+export const COMMENT_FRAGMENT = `
+  id
+  body
+  createdAt
+  updatedAt
+  user {
+    id
+    email
+    name
+  }
+`;
+
 export const ISSUE_WITH_RELATIONS_FRAGMENT = `
   ${ISSUE_FRAGMENT}
   children {
@@ -92,4 +119,9 @@ export const ISSUE_WITH_RELATIONS_FRAGMENT = `
       }
     }
   }
+  comments {
+    nodes {
+      ${COMMENT_FRAGMENT}
+    }
+  }
 `;
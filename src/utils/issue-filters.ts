@@ -0,0 +1,211 @@
+/**
+ * Issue filters shared by lb list and bulk lb update/close
+ */
+
+import { getCachedIssue, getCachedIssues, getParentId } from "./database.js";
+import { ensureFresh } from "./sync.js";
+import { fetchIssue } from "./linear.js";
+import { useTypes, isLocalOnly, getWorkflowStateMapping, parseTeamKeys } from "./config.js";
+import { parsePriority, parseStatus, VALID_ISSUE_TYPES } from "../types.js";
+import { isOverdue, localDate, parseDueDate } from "./due-dates.js";
+import { resolveCyclePerTeam } from "./cycles.js";
+import type { Issue, IssueType } from "../types.js";
+
+/**
+ * Filters as given on the command line (values not yet validated)
+ */
+export interface IssueFilters {
+  status?: string;
+  priority?: string;
+  type?: string;
+  label?: string[];
+  parent?: string;
+  // current, next or a cycle number
+  cycle?: string;
+  milestone?: string;
+  // Team keys, comma-separated
+  team?: string;
+  // lb list only
+  overdue?: boolean;
+  dueBefore?: string;
+}
+
+const FILTER_KEYS = ["status", "priority", "type", "label", "parent", "cycle", "milestone", "team"];
+
+/**
+ * Check if any filter is set
+ */
+export function hasIssueFilters(filters: IssueFilters): boolean {
+  return FILTER_KEYS.some((key) => filters[key as keyof IssueFilters] !== undefined);
+}
+
+/**
+ * Parse --where expressions like "status=in_progress,parent=LIN-10" into filters.
+ * Keys are the lb list filters; label may repeat (all must match).
+ */
+export function parseWhere(expressions: string[]): IssueFilters {
+  const filters: IssueFilters = {};
+  for (const part of expressions.flatMap((e) => e.split(","))) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+
+    const eq = trimmed.indexOf("=");
+    const key = eq > 0 ? trimmed.slice(0, eq).trim() : "";
+    const value = eq > 0 ? trimmed.slice(eq + 1).trim() : "";
+    if (!FILTER_KEYS.includes(key) || !value) {
+      throw new Error(
+        `Invalid filter '${trimmed}'. Expected key=value with key one of: ${FILTER_KEYS.join(", ")}`
+      );
+    }
+
+    if (key === "status") {
+      const { error } = parseStatus(value, getWorkflowStateMapping());
+      if (error) throw new Error(error);
+    }
+
+    if (key === "label") {
+      filters.label = [...(filters.label || []), value];
+    } else {
+      filters[key as Exclude<keyof IssueFilters, "label" | "overdue" | "dueBefore">] = value;
+    }
+  }
+  return filters;
+}
+
+/**
+ * Combine the filter flags of a bulk command with its --where expressions
+ * (a flag wins over the same --where key; labels from both must all match)
+ */
+export function combineFilters(flags: IssueFilters, where: string[] = []): IssueFilters {
+  const parsed = parseWhere(where);
+  return {
+    status: flags.status ?? parsed.status,
+    priority: flags.priority ?? parsed.priority,
+    type: flags.type ?? parsed.type,
+    label:
+      flags.label || parsed.label ? [...(parsed.label || []), ...(flags.label || [])] : undefined,
+    parent: flags.parent ?? parsed.parent,
+    cycle: flags.cycle ?? parsed.cycle,
+    milestone: flags.milestone ?? parsed.milestone,
+    team: flags.team ?? parsed.team,
+  };
+}
+
+/**
+ * Apply filters to issues, throwing on invalid filter values
+ */
+export function filterIssues(issues: Issue[], filters: IssueFilters): Issue[] {
+  if (filters.status) {
+    const { status, error } = parseStatus(filters.status, getWorkflowStateMapping());
+    if (error || !status) {
+      throw new Error(error || "Invalid status");
+    }
+    issues = issues.filter((i) => i.status === status);
+  }
+  if (filters.priority !== undefined) {
+    const { priority, error: priorityError } = parsePriority(filters.priority);
+    if (priorityError || priority === undefined) {
+      throw new Error(priorityError || "Invalid priority");
+    }
+    issues = issues.filter((i) => i.priority === priority);
+  }
+  if (filters.type) {
+    if (!useTypes()) {
+      console.warn(`Warning: type filter ignored (issue types disabled in config)`);
+    } else {
+      if (!VALID_ISSUE_TYPES.includes(filters.type as IssueType)) {
+        throw new Error(
+          `Invalid type '${filters.type}'. Must be one of: ${VALID_ISSUE_TYPES.join(", ")}`
+        );
+      }
+      issues = issues.filter((i) => i.issue_type === filters.type);
+    }
+  }
+  if (filters.label) {
+    const wanted = filters.label.map((l) => l.toLowerCase());
+    issues = issues.filter((i) => {
+      const have = new Set((i.labels || []).map((l) => l.toLowerCase()));
+      return wanted.every((l) => have.has(l));
+    });
+  }
+  if (filters.parent) {
+    const parent = filters.parent.toUpperCase();
+    issues = issues.filter((i) => getParentId(i.id)?.toUpperCase() === parent);
+  }
+  if (filters.cycle) {
+    // "current" (or a number) means each issue's own team's cycle
+    const cycleFor = resolveCyclePerTeam(filters.cycle);
+    issues = issues.filter((i) => i.cycle !== undefined && i.cycle === cycleFor(i.team));
+  }
+  if (filters.team) {
+    const teams = parseTeamKeys(filters.team);
+    issues = issues.filter((i) => i.team !== undefined && teams.includes(i.team));
+  }
+  if (filters.milestone) {
+    const milestone = filters.milestone.toLowerCase();
+    issues = issues.filter((i) => i.milestone?.toLowerCase() === milestone);
+  }
+  if (filters.overdue) {
+    const today = localDate();
+    issues = issues.filter((i) => isOverdue(i, today));
+  }
+  if (filters.dueBefore) {
+    const { date, error } = parseDueDate(filters.dueBefore);
+    if (error || !date) {
+      throw new Error(error || "Invalid date");
+    }
+    issues = issues.filter((i) => !!i.due_date && i.due_date < date);
+  }
+  return issues;
+}
+
+/**
+ * Check that every explicit ID exists (cached, or fetched from Linear when online)
+ * so a bulk change fails before touching any issue
+ */
+async function assertIssuesExist(ids: string[]): Promise<void> {
+  const missing: string[] = [];
+  for (const id of ids) {
+    if (getCachedIssue(id)) continue;
+    if (!isLocalOnly() && (await fetchIssue(id))) continue;
+    missing.push(id);
+  }
+  if (missing.length > 0) {
+    throw new Error(`Issue not found: ${missing.join(", ")}`);
+  }
+}
+
+/**
+ * Work out which issues a bulk command targets: explicit IDs (all of which must
+ * exist), or every cached issue matching the filters (refreshing the cache first when online)
+ */
+export async function resolveTargetIds(
+  ids: string[],
+  filters: IssueFilters,
+  team?: string
+): Promise<string[]> {
+  const filtered = hasIssueFilters(filters);
+  if (ids.length > 0 && filtered) {
+    throw new Error("Give issue IDs or filters, not both");
+  }
+  if (ids.length > 0) {
+    const unique = [...new Set(ids)];
+    await assertIssuesExist(unique);
+    return unique;
+  }
+  if (!filtered) {
+    throw new Error("No issues specified. Give one or more IDs, or filters");
+  }
+
+  if (!isLocalOnly()) {
+    try {
+      await ensureFresh(team);
+    } catch {
+      // Offline: match against the cache as it is
+    }
+  }
+
+  const matches = filterIssues(getCachedIssues(), filters);
+  matches.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+  return matches.map((i) => i.id);
+}
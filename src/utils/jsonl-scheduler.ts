@@ -71,3 +71,14 @@ export function requestJsonlExport(): void {
   // in background worker anyway if process exits before timer fires
   exportTimer.unref();
 }
+
+/**
+ * Take over a pending export so the caller can write it in-process.
+ * Returns true if an export was pending.
+ */
+export function takePendingJsonlExport(): boolean {
+  if (!exportTimer) return false;
+  clearTimeout(exportTimer);
+  exportTimer = null;
+  return true;
+}
@@ -1,70 +1,453 @@
 /**
  * JSONL export for git-friendly issue tracking
  * Exports issues to .lb/issues.jsonl (like beads)
+ *
+ * By default the file is a read-only snapshot of the cache. With jsonl_sync
+ * enabled it is also a sync source: edits that arrive in it (e.g. via git pull)
+ * are applied to the cache and, unless local_only is set, queued for Linear.
+ * Changes are detected against the last content lb wrote or imported, so
+ * issues edited both locally and in the file are reported as conflicts, and
+ * the file's version is set aside in .lb/issues.conflicts.jsonl.
  */
 
-import { writeFileSync, renameSync } from "fs";
+import { writeFileSync, renameSync, readFileSync, existsSync } from "fs";
 import { join, dirname } from "path";
-import { getDbPath } from "./config.js";
-import { getCachedIssues, getDependencies } from "./database.js";
+import { createHash } from "crypto";
+import { getDbPath, getWorkflowStateMapping, isJsonlSyncEnabled, isLocalOnly } from "./config.js";
+import {
+  getCachedIssues,
+  getCachedIssue,
+  getDependencies,
+  cacheIssue,
+  cacheDependency,
+  clearIssueDependencies,
+  deleteCachedIssue,
+  getJsonlSnapshot,
+  setJsonlSnapshot,
+  reserveLocalId,
+} from "./database.js";
+import { queueOperation } from "./spawn-worker.js";
+import { parseStatus } from "../types.js";
+import type { Issue, Dependency } from "../types.js";
 
 /**
- * Export all issues to .lb/issues.jsonl
- * Linear is source of truth, JSONL is read-only snapshot
+ * One line of issues.jsonl
  */
-export function exportToJsonl(): void {
-  try {
-    const dbPath = getDbPath();
-    const lbDir = dirname(dbPath);
-    const jsonlPath = join(lbDir, "issues.jsonl");
-    const tmpPath = `${jsonlPath}.tmp`;
-
-    // Get all cached issues
-    const issues = getCachedIssues();
-
-    // Sort by ID for consistent ordering
-    issues.sort((a, b) => a.id.localeCompare(b.id));
-
-    // Build JSONL lines
-    const lines: string[] = [];
-
-    for (const issue of issues) {
-      // Get dependencies for this issue
-      const deps = getDependencies(issue.id);
-
-      // Build issue object (same format as bd)
-      const issueObj: Record<string, unknown> = {
-        id: issue.id,
-        title: issue.title,
-        status: issue.status,
-        priority: issue.priority,
-        created_at: issue.created_at,
-        updated_at: issue.updated_at,
-      };
-
-      // Optional fields
-      if (issue.issue_type) {
-        issueObj.issue_type = issue.issue_type;
-      }
-      if (issue.description) {
-        issueObj.description = issue.description;
+type JsonlIssue = Issue & { dependencies?: Dependency[] };
+
+/**
+ * An issue changed both locally and in issues.jsonl
+ * (the local version is kept, the file's goes to issues.conflicts.jsonl)
+ */
+export interface JsonlConflict {
+  id: string;
+  local_updated_at: string;
+  jsonl_updated_at: string;
+}
+
+/**
+ * Changes applied from issues.jsonl
+ */
+export interface JsonlImportResult {
+  created: string[];
+  updated: string[];
+  deleted: string[];
+  conflicts: JsonlConflict[];
+}
+
+/**
+ * Path of .lb/issues.jsonl
+ */
+function getJsonlPath(): string {
+  return join(dirname(getDbPath()), "issues.jsonl");
+}
+
+/**
+ * Path of .lb/issues.conflicts.jsonl
+ */
+function getConflictsPath(): string {
+  return join(dirname(getDbPath()), "issues.conflicts.jsonl");
+}
+
+/**
+ * SHA-256 of file content, to spot changes without diffing
+ */
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Build the JSONL line object for an issue (same format as bd)
+ */
+function issueToJsonl(issue: Issue, deps: Dependency[]): Record<string, unknown> {
+  const issueObj: Record<string, unknown> = {
+    id: issue.id,
+    title: issue.title,
+    status: issue.status,
+    priority: issue.priority,
+    created_at: issue.created_at,
+    updated_at: issue.updated_at,
+  };
+
+  // Optional fields
+  if (issue.issue_type) {
+    issueObj.issue_type = issue.issue_type;
+  }
+  if (issue.description) {
+    issueObj.description = issue.description;
+  }
+  if (issue.closed_at) {
+    issueObj.closed_at = issue.closed_at;
+  }
+  if (issue.resolution) {
+    issueObj.resolution = issue.resolution;
+  }
+  if (issue.duplicate_of) {
+    issueObj.duplicate_of = issue.duplicate_of;
+  }
+  if (issue.estimate !== undefined) {
+    issueObj.estimate = issue.estimate;
+  }
+  if (issue.due_date) {
+    issueObj.due_date = issue.due_date;
+  }
+  if (issue.cycle !== undefined) {
+    issueObj.cycle = issue.cycle;
+  }
+  if (issue.milestone) {
+    issueObj.milestone = issue.milestone;
+  }
+  if (issue.team) {
+    issueObj.team = issue.team;
+  }
+  if (issue.labels && issue.labels.length > 0) {
+    issueObj.labels = issue.labels;
+  }
+
+  // Add dependencies array if any
+  if (deps.length > 0) {
+    issueObj.dependencies = deps;
+  }
+
+  return issueObj;
+}
+
+/**
+ * Render the whole cache as JSONL, sorted by ID for consistent ordering
+ */
+function buildJsonl(): string {
+  const issues = getCachedIssues();
+  issues.sort((a, b) => a.id.localeCompare(b.id));
+  const lines = issues.map((issue) =>
+    JSON.stringify(issueToJsonl(issue, getDependencies(issue.id)))
+  );
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Write .lb/issues.jsonl and remember it as the base for detecting later edits
+ */
+function writeJsonl(): void {
+  const jsonlPath = getJsonlPath();
+  const tmpPath = `${jsonlPath}.tmp`;
+  const content = buildJsonl();
+
+  // Atomic write: tmp file + rename
+  writeFileSync(tmpPath, content);
+  renameSync(tmpPath, jsonlPath);
+  setJsonlSnapshot(hashContent(content), content);
+}
+
+/**
+ * Parse issues.jsonl content into issues by ID
+ */
+function parseJsonl(content: string): Map<string, JsonlIssue> {
+  const issues = new Map<string, JsonlIssue>();
+  content.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+    let issue: JsonlIssue;
+    try {
+      issue = JSON.parse(line);
+    } catch {
+      throw new Error(
+        `issues.jsonl line ${index + 1} is not valid JSON (unresolved merge conflict?); not importing it`
+      );
+    }
+    if (!issue.id || !issue.title || !issue.status || !issue.updated_at) {
+      throw new Error(`issues.jsonl line ${index + 1} is missing id, title, status or updated_at`);
+    }
+    issues.set(issue.id, issue);
+  });
+  return issues;
+}
+
+/**
+ * Set aside the file's version of conflicting issues so the edit isn't lost when
+ * issues.jsonl is rewritten. Lines already there for other issues are kept
+ * until the user deletes the file.
+ */
+function writeConflicts(entries: JsonlIssue[]): void {
+  const conflictsPath = getConflictsPath();
+  const lines = new Map<string, string>();
+  if (existsSync(conflictsPath)) {
+    for (const line of readFileSync(conflictsPath, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        lines.set(JSON.parse(line).id, line);
+      } catch {
+        // Keep hand-edited lines as they are
+        lines.set(line, line);
       }
-      if (issue.closed_at) {
-        issueObj.closed_at = issue.closed_at;
+    }
+  }
+  for (const entry of entries) {
+    lines.set(entry.id, JSON.stringify(entry));
+  }
+  writeFileSync(conflictsPath, [...lines.values()].join("\n") + "\n");
+}
+
+/**
+ * Outgoing dependencies as comparable "type:target" keys
+ */
+function dependencyKeys(deps: Dependency[] = []): string[] {
+  return deps.map((d) => `${d.type}:${d.depends_on_id}`).sort();
+}
+
+/**
+ * Compare what an issue line says, ignoring key order and bookkeeping fields
+ */
+function sameContent(a: JsonlIssue, b: JsonlIssue): boolean {
+  const fields = (issue: JsonlIssue) =>
+    JSON.stringify([
+      issue.title,
+      issue.description || "",
+      issue.status,
+      issue.resolution || "",
+      issue.priority,
+      issue.estimate ?? null,
+      issue.due_date || "",
+      issue.cycle ?? null,
+      issue.milestone || "",
+      issue.issue_type || "",
+      [...(issue.labels || [])].sort(),
+      dependencyKeys(issue.dependencies),
+    ]);
+  return fields(a) === fields(b);
+}
+
+/**
+ * Replace an issue's cached fields, labels and outgoing dependencies with the line's
+ */
+function applyToCache(entry: JsonlIssue, cached: Issue | null): void {
+  cacheIssue({
+    ...cached,
+    id: entry.id,
+    title: entry.title,
+    description: entry.description,
+    status: entry.status,
+    priority: entry.priority,
+    issue_type: entry.issue_type,
+    created_at: entry.created_at || cached?.created_at || entry.updated_at,
+    updated_at: entry.updated_at,
+    closed_at: entry.closed_at,
+    resolution: entry.resolution,
+    duplicate_of: entry.duplicate_of,
+    estimate: entry.estimate,
+    due_date: entry.due_date,
+    cycle: entry.cycle,
+    milestone: entry.milestone,
+    team: entry.team ?? cached?.team,
+    labels: entry.labels || [],
+  });
+  clearIssueDependencies(entry.id);
+  for (const dep of entry.dependencies || []) {
+    cacheDependency({
+      issue_id: entry.id,
+      depends_on_id: dep.depends_on_id,
+      type: dep.type,
+      created_at: dep.created_at || entry.updated_at,
+      created_by: dep.created_by || "jsonl",
+    });
+  }
+}
+
+/**
+ * Queue the difference between the cached issue and the line for Linear
+ */
+function queueForLinear(entry: JsonlIssue, cached: Issue): void {
+  const payload: Record<string, unknown> = { issueId: entry.id };
+  if (entry.title !== cached.title) payload.title = entry.title;
+  if ((entry.description || "") !== (cached.description || "")) {
+    payload.description = entry.description || "";
+  }
+  if (entry.status !== cached.status) payload.status = entry.status;
+  if (entry.priority !== cached.priority) payload.priority = entry.priority;
+  if (entry.estimate !== cached.estimate) payload.estimate = entry.estimate ?? null;
+  if ((entry.due_date || "") !== (cached.due_date || "")) {
+    payload.due_date = entry.due_date || null;
+  }
+  if (entry.cycle !== cached.cycle) payload.cycle = entry.cycle ?? null;
+  if ((entry.milestone || "") !== (cached.milestone || "")) {
+    payload.milestone = entry.milestone || null;
+  }
+
+  const before = new Set(cached.labels || []);
+  const after = new Set(entry.labels || []);
+  const addLabels = [...after].filter((l) => !before.has(l));
+  const removeLabels = [...before].filter((l) => !after.has(l));
+  if (addLabels.length > 0) payload.labels = addLabels;
+  if (removeLabels.length > 0) payload.removeLabels = removeLabels;
+
+  const oldDeps = getDependencies(entry.id);
+  const oldKeys = new Set(dependencyKeys(oldDeps));
+  const newKeys = new Set(dependencyKeys(entry.dependencies));
+  const added = (entry.dependencies || []).filter(
+    (d) => !oldKeys.has(`${d.type}:${d.depends_on_id}`)
+  );
+  const deps = added
+    .filter((d) => d.type === "blocks" || d.type === "related")
+    .map((d) => `${d.type}:${d.depends_on_id}`);
+  if (deps.length > 0) payload.deps = deps.join(",");
+  const parent = added.find((d) => d.type === "parent-child");
+  if (parent) payload.parentId = parent.depends_on_id;
+
+  if (Object.keys(payload).length > 1) {
+    queueOperation("update", payload);
+  }
+
+  for (const dep of oldDeps) {
+    if (dep.type === "parent-child" || newKeys.has(`${dep.type}:${dep.depends_on_id}`)) continue;
+    queueOperation("delete_relation", { issueA: entry.id, issueB: dep.depends_on_id });
+  }
+}
+
+/**
+ * Apply edits made to issues.jsonl since lb last wrote or imported it.
+ * Returns null if jsonl_sync is off or the file is unchanged.
+ *
+ * An issue counts as edited in the file when its line differs from the last
+ * snapshot. It counts as edited locally when its cached updated_at no longer
+ * matches the snapshot; if both happened (and disagree) the local version is
+ * kept, the file's version is written to issues.conflicts.jsonl and the issue
+ * is reported as a conflict.
+ *
+ * In local-only mode new and removed lines create and delete issues. Otherwise
+ * only edits to issues already in the cache are queued for Linear: issues
+ * created or removed by teammates arrive through the normal sync.
+ */
+export function importJsonlChanges(): JsonlImportResult | null {
+  if (!isJsonlSyncEnabled()) return null;
+
+  const jsonlPath = getJsonlPath();
+  if (!existsSync(jsonlPath)) return null;
+
+  const content = readFileSync(jsonlPath, "utf-8");
+  const snapshot = getJsonlSnapshot();
+  if (snapshot && snapshot.hash === hashContent(content)) return null;
+
+  const incoming = parseJsonl(content);
+  const base = snapshot ? parseJsonl(snapshot.content) : new Map<string, JsonlIssue>();
+  const localOnly = isLocalOnly();
+  const result: JsonlImportResult = { created: [], updated: [], deleted: [], conflicts: [] };
+  const theirs: JsonlIssue[] = [];
+
+  // Edited lines may only use configured statuses; check them all before applying any
+  const mapping = getWorkflowStateMapping();
+  for (const [id, entry] of incoming) {
+    const baseEntry = base.get(id);
+    if (baseEntry && sameContent(entry, baseEntry)) continue;
+    const { error } = parseStatus(entry.status, mapping);
+    if (error) {
+      throw new Error(`issues.jsonl ${id}: ${error}`);
+    }
+  }
+
+  for (const id of new Set([...incoming.keys(), ...base.keys()])) {
+    const entry = incoming.get(id);
+    const baseEntry = base.get(id);
+
+    // Unchanged in the file (or both sides added the same line)
+    if (entry && baseEntry && sameContent(entry, baseEntry)) continue;
+    if (!entry && !baseEntry) continue;
+
+    const cached = getCachedIssue(id);
+    const cachedEntry = cached && { ...cached, dependencies: getDependencies(id) };
+    if (entry && cachedEntry && sameContent(entry, cachedEntry)) continue;
+
+    // Without a snapshot there is no base: a newer cache copy counts as a local edit
+    const changedLocally =
+      !!cached &&
+      (baseEntry
+        ? cached.updated_at !== baseEntry.updated_at
+        : !!entry && cached.updated_at > entry.updated_at);
+    if (changedLocally) {
+      result.conflicts.push({
+        id,
+        local_updated_at: cached.updated_at,
+        jsonl_updated_at: entry?.updated_at || "removed",
+      });
+      if (entry) theirs.push(entry);
+      continue;
+    }
+
+    if (!entry) {
+      if (localOnly && cached) {
+        deleteCachedIssue(id);
+        result.deleted.push(id);
       }
+      continue;
+    }
 
-      // Add dependencies array if any
-      if (deps.length > 0) {
-        issueObj.dependencies = deps;
+    if (!cached) {
+      if (localOnly) {
+        applyToCache(entry, null);
+        reserveLocalId(id);
+        result.created.push(id);
       }
+      continue;
+    }
 
-      // Write as compact JSON (one line)
-      lines.push(JSON.stringify(issueObj));
+    if (!localOnly) {
+      queueForLinear(entry, cached);
     }
+    applyToCache(entry, cached);
+    result.updated.push(id);
+  }
+
+  if (theirs.length > 0) writeConflicts(theirs);
 
-    // Atomic write: tmp file + rename
-    writeFileSync(tmpPath, lines.join("\n") + "\n");
-    renameSync(tmpPath, jsonlPath);
+  // The cache now reflects the file (apart from conflicts, where it wins)
+  writeJsonl();
+  return result;
+}
+
+/**
+ * One line per change for reporting an import to the user
+ */
+export function describeJsonlImport(result: JsonlImportResult): string[] {
+  const lines: string[] = [];
+  const applied = result.created.length + result.updated.length + result.deleted.length;
+  if (applied > 0) {
+    lines.push(
+      `Imported issues.jsonl changes: ${result.created.length} created, ${result.updated.length} updated, ${result.deleted.length} deleted`
+    );
+  }
+  for (const conflict of result.conflicts) {
+    lines.push(
+      `⚠ Conflict: ${conflict.id} changed locally (${conflict.local_updated_at}) and in issues.jsonl (${conflict.jsonl_updated_at}); kept the local version${conflict.jsonl_updated_at === "removed" ? "" : ", theirs is in .lb/issues.conflicts.jsonl"}`
+    );
+  }
+  return lines;
+}
+
+/**
+ * Export all issues to .lb/issues.jsonl
+ * With jsonl_sync, pending edits in the file are imported first so they aren't overwritten
+ */
+export function exportToJsonl(): void {
+  try {
+    if (importJsonlChanges()) return;
+    writeJsonl();
   } catch (error) {
     // Don't fail sync if export fails, just log
     console.error(
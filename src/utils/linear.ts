@@ -2,15 +2,22 @@
  * Linear API operations
  */
 
-import { getGraphQLClient, ISSUE_FRAGMENT, ISSUE_WITH_RELATIONS_FRAGMENT } from "./graphql.js";
+import {
+  getGraphQLClient,
+  ISSUE_FRAGMENT,
+  ISSUE_WITH_RELATIONS_FRAGMENT,
+  COMMENT_FRAGMENT,
+} from "./graphql.js";
 import {
   getRepoLabel,
   getRepoName,
   getRepoScope,
   getTeamKey,
+  getSyncTeamKeys,
   useLabelScope,
   useProjectScope,
   useTypes,
+  getWorkflowStateMapping,
 } from "./config.js";
 import {
   cacheIssue,
@@ -27,52 +34,130 @@ import {
   pruneStaleIssues,
   cacheViewer,
   getCachedViewer,
+  cacheComment,
+  replaceIssueComments,
+  isTempId,
+  getRemappedId,
+  cacheCycles,
+  getCachedCycles,
+  cacheMilestone,
+  cacheMilestones,
+  getCachedMilestoneByName,
+  getCachedIssue,
 } from "./database.js";
-import type { Issue, IssueType, Priority, LinearIssue, IssueStatus } from "../types.js";
+import type {
+  Issue,
+  IssueType,
+  Priority,
+  LinearIssue,
+  IssueStatus,
+  WorkflowStatus,
+  Comment,
+  LinearComment,
+  Resolution,
+  Cycle,
+  Milestone,
+} from "../types.js";
 import {
   linearStateToStatus,
+  linearStateToResolution,
   linearToPriority,
   labelToIssueType,
   priorityToLinear,
   statusToLinearState,
+  statusForStateName,
+  isBuiltinStatus,
 } from "../types.js";
 
 /**
  * Convert Linear issue to bd-compatible issue
  */
-function linearToBdIssue(linear: LinearIssue): Issue & { linear_state_id: string } {
+export function linearToBdIssue(
+  linear: LinearIssue
+): Issue & { linear_state_id: string; linear_id: string } {
   const labels = linear.labels.nodes.map((l) => l.name);
   const issueType = useTypes() ? labelToIssueType(labels) : undefined;
+  // The repo label is on every issue in scope, so it carries no information
+  const repoLabel = getRepoLabel();
 
-  const issue: Issue & { linear_state_id: string } = {
+  const issue: Issue & { linear_state_id: string; linear_id: string } = {
     id: linear.identifier,
     title: linear.title,
     description: linear.description || undefined,
-    status: linearStateToStatus(linear.state.type),
+    status: linearStateToStatus(linear.state.type, linear.state.name, getWorkflowStateMapping()),
     priority: linearToPriority(linear.priority),
     created_at: linear.createdAt,
     updated_at: linear.updatedAt,
     closed_at: linear.completedAt || linear.canceledAt || undefined,
     assignee: linear.assignee?.email || undefined,
+    labels: labels.filter((name) => name !== repoLabel).sort(),
     linear_state_id: linear.state.id,
+    linear_id: linear.id,
   };
 
   if (issueType) {
     issue.issue_type = issueType;
   }
 
+  if (linear.estimate !== null && linear.estimate !== undefined) {
+    issue.estimate = linear.estimate;
+  }
+
+  if (linear.dueDate) {
+    issue.due_date = linear.dueDate;
+  }
+
+  if (linear.cycle) {
+    issue.cycle = linear.cycle.number;
+  }
+
+  if (linear.projectMilestone) {
+    issue.milestone = linear.projectMilestone.name;
+  }
+
+  if (linear.team) {
+    issue.team = linear.team.key;
+  }
+
+  if (issue.status === "closed") {
+    issue.resolution = linearStateToResolution(linear.state.type);
+  }
+
   return issue;
 }
 
+/**
+ * Convert Linear comment to lb comment
+ */
+function linearToComment(issueId: string, linear: LinearComment): Comment {
+  const comment: Comment = {
+    id: linear.id,
+    issue_id: issueId,
+    body: linear.body,
+    created_at: linear.createdAt,
+    updated_at: linear.updatedAt,
+  };
+  if (linear.user?.email) {
+    comment.author = linear.user.email;
+  }
+  return comment;
+}
+
 /**
  * Get or create repo label
  */
 export async function ensureRepoLabel(teamId: string): Promise<string> {
+  return ensureLabel(teamId, getRepoLabel());
+}
+
+/**
+ * Find a team label ID by name (matched case-insensitively), or null if it doesn't exist
+ */
+export async function findLabelId(teamId: string, name: string): Promise<string | null> {
   const client = getGraphQLClient();
-  const repoLabel = getRepoLabel();
 
   // Check cache first
-  const cachedId = getLabelIdByName(repoLabel);
+  const cachedId = getLabelIdByName(name, teamId);
   if (cachedId) return cachedId;
 
   // Query existing labels
@@ -93,12 +178,26 @@ export async function ensureRepoLabel(teamId: string): Promise<string> {
     team: { labels: { nodes: Array<{ id: string; name: string }> } };
   }>(query, { teamId });
 
-  const existing = result.team.labels.nodes.find((l) => l.name === repoLabel);
+  const existing = result.team.labels.nodes.find(
+    (l) => l.name.toLowerCase() === name.toLowerCase()
+  );
   if (existing) {
     cacheLabel(existing.id, existing.name, teamId);
     return existing.id;
   }
 
+  return null;
+}
+
+/**
+ * Get or create a team label by name
+ */
+export async function ensureLabel(teamId: string, name: string): Promise<string> {
+  const existingId = await findLabelId(teamId, name);
+  if (existingId) return existingId;
+
+  const client = getGraphQLClient();
+
   // Create label
   const createMutation = `
     mutation CreateLabel($input: IssueLabelCreateInput!) {
@@ -119,13 +218,13 @@ export async function ensureRepoLabel(teamId: string): Promise<string> {
     };
   }>(createMutation, {
     input: {
-      name: repoLabel,
+      name,
       teamId,
     },
   });
 
   if (!createResult.issueLabelCreate.success) {
-    throw new Error(`Failed to create repo label: ${repoLabel}`);
+    throw new Error(`Failed to create label: ${name}`);
   }
 
   cacheLabel(
@@ -145,26 +244,41 @@ export async function ensureRepoProject(teamId: string): Promise<string> {
   const projectName = getRepoName() || "unknown";
 
   // Check cache first
-  const cachedId = getProjectIdByName(projectName);
+  const cachedId = getProjectIdByName(projectName, teamId);
   if (cachedId) return cachedId;
 
-  // Query existing projects by name
+  // Query existing projects by name (project names aren't unique across teams)
   const query = `
     query GetProjects($name: String!) {
       projects(filter: { name: { eq: $name } }, first: 10) {
         nodes {
           id
           name
+          teams {
+            nodes {
+              id
+            }
+          }
         }
       }
     }
   `;
 
   const result = await client.request<{
-    projects: { nodes: Array<{ id: string; name: string }> };
+    projects: {
+      nodes: Array<{ id: string; name: string; teams: { nodes: Array<{ id: string }> } }>;
+    };
   }>(query, { name: projectName });
 
-  const existing = result.projects.nodes.find((p) => p.name === projectName);
+  const matches = result.projects.nodes.filter(
+    (p) => p.name === projectName && p.teams.nodes.some((t) => t.id === teamId)
+  );
+  if (matches.length > 1) {
+    throw new Error(
+      `Several Linear projects in this team are named '${projectName}'. Rename all but one`
+    );
+  }
+  const existing = matches[0];
   if (existing) {
     cacheProject(existing.id, existing.name, teamId);
     return existing.id;
@@ -219,7 +333,7 @@ export async function ensureTypeLabel(teamId: string, type: IssueType): Promise<
   const labelName = type.charAt(0).toUpperCase() + type.slice(1);
 
   // Check cache first
-  const cachedId = getLabelIdByName(labelName);
+  const cachedId = getLabelIdByName(labelName, teamId);
   if (cachedId) return cachedId;
 
   // Query existing labels and label groups
@@ -336,12 +450,31 @@ export async function ensureTypeLabel(teamId: string, type: IssueType): Promise<
   return createResult.issueLabelCreate.issueLabel.id;
 }
 
+// Teams already looked up by this process, by key ("" for the auto-detected team)
+const resolvedTeams = new Map<string, { id: string; key: string }>();
+
 /**
  * Get team ID from team key, or auto-detect if not provided
  */
 export async function getTeamId(teamKey?: string): Promise<string> {
-  const client = getGraphQLClient();
+  return (await getTeam(teamKey)).id;
+}
+
+/**
+ * Get a team's ID and key from its key, or auto-detect if not provided
+ */
+export async function getTeam(teamKey?: string): Promise<{ id: string; key: string }> {
   const key = teamKey || getTeamKey();
+  const resolved = resolvedTeams.get(key || "");
+  if (resolved) return resolved;
+
+  const team = await lookUpTeam(key);
+  resolvedTeams.set(key || "", team);
+  return team;
+}
+
+async function lookUpTeam(key: string | undefined): Promise<{ id: string; key: string }> {
+  const client = getGraphQLClient();
 
   // If team key is provided, look it up
   if (key) {
@@ -365,7 +498,8 @@ export async function getTeamId(teamKey?: string): Promise<string> {
       throw new Error(`Team not found: ${key}`);
     }
 
-    return result.teams.nodes[0].id;
+    const team = result.teams.nodes[0];
+    return { id: team.id, key: team.key };
   }
 
   // No team key provided - auto-detect from user's teams
@@ -392,7 +526,7 @@ export async function getTeamId(teamKey?: string): Promise<string> {
   if (result.teams.nodes.length === 1) {
     // Auto-select single team
     const team = result.teams.nodes[0];
-    return team.id;
+    return { id: team.id, key: team.key };
   }
 
   // Multiple teams - ask user to specify
@@ -401,12 +535,39 @@ export async function getTeamId(teamKey?: string): Promise<string> {
 }
 
 /**
- * Get workflow state ID for a status
+ * Teams to sync: the configured teams plus any from --team (comma-separated),
+ * or the auto-detected team if none are configured
  */
-export async function getWorkflowStateId(teamId: string, status: Issue["status"]): Promise<string> {
-  const client = getGraphQLClient();
-  const stateType = statusToLinearState(status);
+export async function getSyncTeams(
+  teamOption?: string
+): Promise<Array<{ id: string; key: string }>> {
+  const keys = getSyncTeamKeys(teamOption);
+  if (keys.length === 0) {
+    return [await getTeam()];
+  }
+  const teams = [];
+  for (const key of keys) {
+    teams.push(await getTeam(key));
+  }
+  return teams;
+}
+
+/**
+ * ID of the team a cached issue belongs to, or the fallback if it's unknown
+ * (workflow states, labels and cycles are per team)
+ */
+export async function getIssueTeamId(issueId: string, fallbackTeamId: string): Promise<string> {
+  const team = getCachedIssue(issueId)?.team;
+  return team ? getTeamId(team) : fallbackTeamId;
+}
 
+/**
+ * Fetch a team's workflow states in board order
+ */
+async function fetchWorkflowStates(
+  teamId: string
+): Promise<Array<{ id: string; name: string; type: string; position: number }>> {
+  const client = getGraphQLClient();
   const query = `
     query GetWorkflowStates($teamId: String!) {
       team(id: $teamId) {
@@ -415,6 +576,7 @@ export async function getWorkflowStateId(teamId: string, status: Issue["status"]
             id
             name
             type
+            position
           }
         }
       }
@@ -422,10 +584,68 @@ export async function getWorkflowStateId(teamId: string, status: Issue["status"]
   `;
 
   const result = await client.request<{
-    team: { states: { nodes: Array<{ id: string; name: string; type: string }> } };
+    team: {
+      states: { nodes: Array<{ id: string; name: string; type: string; position: number }> };
+    };
   }>(query, { teamId });
 
-  const state = result.team.states.nodes.find((s) => s.type === stateType);
+  return [...result.team.states.nodes].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Linear workflow state type a status stands for
+ * Custom statuses take the type of the state they're mapped to in workflow_states
+ */
+export async function getStatusStateType(teamId: string, status: WorkflowStatus): Promise<string> {
+  if (isBuiltinStatus(status)) {
+    return statusToLinearState(status);
+  }
+  const mapping = getWorkflowStateMapping();
+  const states = await fetchWorkflowStates(teamId);
+  const mapped = states.find((s) => statusForStateName(mapping, s.name) === status);
+  return mapped?.type ?? statusToLinearState(status);
+}
+
+/**
+ * Get workflow state ID for a status
+ * States mapped to the status in workflow_states win; otherwise the first state
+ * of the matching type that isn't mapped to a different status is used.
+ * Closing as wont_fix or duplicate uses a canceled state instead of a completed one.
+ */
+export async function getWorkflowStateId(
+  teamId: string,
+  status: Issue["status"],
+  resolution?: Resolution
+): Promise<string> {
+  const canceled = status === "closed" && (resolution === "wont_fix" || resolution === "duplicate");
+  const stateType = canceled ? "canceled" : statusToLinearState(status);
+  const mapping = getWorkflowStateMapping();
+  const states = await fetchWorkflowStates(teamId);
+
+  // Linear teams come with a canceled "Duplicate" state
+  if (resolution === "duplicate") {
+    const duplicate = states.find((s) => s.type === "canceled" && /duplicate/i.test(s.name));
+    if (duplicate) {
+      return duplicate.id;
+    }
+  }
+
+  const mapped = states.find(
+    (s) => statusForStateName(mapping, s.name) === status && (!canceled || s.type === "canceled")
+  );
+  if (mapped) {
+    return mapped.id;
+  }
+
+  if (!isBuiltinStatus(status)) {
+    throw new Error(
+      `No Linear workflow state is mapped to status '${status}'. Check workflow_states in .lb/config.jsonc`
+    );
+  }
+
+  const state =
+    states.find((s) => s.type === stateType && !statusForStateName(mapping, s.name)) ||
+    states.find((s) => s.type === stateType);
   if (!state) {
     throw new Error(`Workflow state not found for type: ${stateType}`);
   }
@@ -433,6 +653,193 @@ export async function getWorkflowStateId(teamId: string, status: Issue["status"]
   return state.id;
 }
 
+/**
+ * Fetch a team's recent, current and upcoming cycles and cache them
+ */
+export async function fetchCycles(teamId: string): Promise<Cycle[]> {
+  const client = getGraphQLClient();
+
+  // Skip long-finished cycles: a few weeks back is enough for lb cycle list
+  const since = new Date(Date.now() - 8 * 7 * 24 * 60 * 60 * 1000).toISOString();
+  const query = `
+    query GetCycles($teamId: String!, $since: DateTimeOrDuration!) {
+      team(id: $teamId) {
+        key
+        cycles(first: 50, filter: { endsAt: { gt: $since } }) {
+          nodes {
+            id
+            number
+            name
+            startsAt
+            endsAt
+            completedAt
+          }
+        }
+      }
+    }
+  `;
+
+  const result = await client.request<{
+    team: {
+      key: string;
+      cycles: {
+        nodes: Array<{
+          id: string;
+          number: number;
+          name?: string | null;
+          startsAt: string;
+          endsAt: string;
+          completedAt?: string | null;
+        }>;
+      };
+    };
+  }>(query, { teamId, since });
+
+  const cycles = result.team.cycles.nodes.map((node) => {
+    const cycle: Cycle = {
+      id: node.id,
+      team_id: teamId,
+      team: result.team.key,
+      number: node.number,
+      starts_at: node.startsAt,
+      ends_at: node.endsAt,
+    };
+    if (node.name) cycle.name = node.name;
+    if (node.completedAt) cycle.completed_at = node.completedAt;
+    return cycle;
+  });
+  cacheCycles(teamId, cycles);
+  return cycles.sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+}
+
+/**
+ * Linear UUID of a team's cycle by number, refreshing the cycle cache if it's unknown
+ */
+async function getCycleId(teamId: string, number: number): Promise<string> {
+  const find = (cycles: Cycle[]) => cycles.find((c) => c.number === number);
+  const cycle = find(getCachedCycles(teamId)) || find(await fetchCycles(teamId));
+  if (!cycle) {
+    throw new Error(`Cycle not found: ${number}`);
+  }
+  return cycle.id;
+}
+
+// Milestone fields as returned by Linear
+interface LinearMilestone {
+  id: string;
+  name: string;
+  targetDate?: string | null;
+  sortOrder: number;
+}
+
+function linearToMilestone(projectId: string, node: LinearMilestone): Milestone {
+  const milestone: Milestone = {
+    id: node.id,
+    project_id: projectId,
+    name: node.name,
+    sort_order: node.sortOrder,
+  };
+  if (node.targetDate) milestone.target_date = node.targetDate;
+  return milestone;
+}
+
+/**
+ * Fetch the repo project's milestones and cache them.
+ * Milestones belong to projects, so there are none without project scoping.
+ */
+export async function fetchMilestones(teamId: string): Promise<Milestone[]> {
+  if (!useProjectScope()) return [];
+  const client = getGraphQLClient();
+  const projectId = await ensureRepoProject(teamId);
+
+  const query = `
+    query GetMilestones($projectId: String!) {
+      project(id: $projectId) {
+        projectMilestones {
+          nodes {
+            id
+            name
+            targetDate
+            sortOrder
+          }
+        }
+      }
+    }
+  `;
+
+  const result = await client.request<{
+    project: { projectMilestones: { nodes: LinearMilestone[] } };
+  }>(query, { projectId });
+
+  const milestones = result.project.projectMilestones.nodes.map((node) =>
+    linearToMilestone(projectId, node)
+  );
+  cacheMilestones(projectId, milestones);
+  return milestones.sort((a, b) => a.sort_order - b.sort_order);
+}
+
+/**
+ * Create a milestone in the repo project
+ */
+export async function createMilestone(
+  teamId: string,
+  params: { name: string; description?: string; targetDate?: string }
+): Promise<Milestone> {
+  if (!useProjectScope()) {
+    throw new Error("Milestones belong to the repo project. Set repo_scope to project or both");
+  }
+  const client = getGraphQLClient();
+  const projectId = await ensureRepoProject(teamId);
+
+  const mutation = `
+    mutation CreateMilestone($input: ProjectMilestoneCreateInput!) {
+      projectMilestoneCreate(input: $input) {
+        success
+        projectMilestone {
+          id
+          name
+          targetDate
+          sortOrder
+        }
+      }
+    }
+  `;
+
+  const result = await client.request<{
+    projectMilestoneCreate: { success: boolean; projectMilestone: LinearMilestone | null };
+  }>(mutation, {
+    input: {
+      projectId,
+      name: params.name,
+      description: params.description,
+      targetDate: params.targetDate,
+    },
+  });
+
+  if (!result.projectMilestoneCreate.success || !result.projectMilestoneCreate.projectMilestone) {
+    throw new Error(`Failed to create milestone: ${params.name}`);
+  }
+
+  const milestone = linearToMilestone(projectId, result.projectMilestoneCreate.projectMilestone);
+  cacheMilestone(milestone);
+  return milestone;
+}
+
+/**
+ * Linear UUID of a repo project milestone by name, refreshing the milestone cache if it's unknown
+ */
+async function getMilestoneId(teamId: string, name: string): Promise<string> {
+  let milestone = getCachedMilestoneByName(name);
+  if (!milestone) {
+    await fetchMilestones(teamId);
+    milestone = getCachedMilestoneByName(name);
+  }
+  if (!milestone) {
+    throw new Error(`Milestone not found: ${name}`);
+  }
+  return milestone.id;
+}
+
 /**
  * Fetch issues from Linear with repo scoping
  * Uses a simplified query to avoid Linear API complexity limits
@@ -474,6 +881,7 @@ export async function fetchIssues(teamId: string): Promise<Issue[]> {
   const query = `
     query GetIssues(${varDecls}) {
       team(id: $teamId) {
+        key
         issues(${filter}, first: 100) {
           nodes {
             ${ISSUE_FRAGMENT}
@@ -484,13 +892,13 @@ export async function fetchIssues(teamId: string): Promise<Issue[]> {
   `;
 
   const result = await client.request<{
-    team: { issues: { nodes: LinearIssue[] } };
+    team: { key: string; issues: { nodes: LinearIssue[] } };
   }>(query, variables);
 
   const issues = result.team.issues.nodes.map(linearToBdIssue);
 
-  // Clear old issues before caching fresh ones (prevents stale issues from other repos)
-  clearIssuesCache();
+  // Clear the team's old issues before caching fresh ones (prevents stale issues from other repos)
+  clearIssuesCache(result.team.key);
 
   // Cache issues
   cacheIssues(issues);
@@ -549,6 +957,7 @@ export async function fetchAllIssuesPaginated(
 
   const allIssues: Issue[] = [];
   const allIssueIds = new Set<string>();
+  let teamKey: string | undefined;
   let cursor: string | undefined;
   let hasMore = true;
 
@@ -566,6 +975,7 @@ export async function fetchAllIssuesPaginated(
     const query = `
       query GetAllIssues(${varDecls}) {
         team(id: $teamId) {
+          key
           issues(${scopeFilter}, first: 50, after: $cursor) {
             pageInfo {
               hasNextPage
@@ -581,6 +991,7 @@ export async function fetchAllIssuesPaginated(
 
     const result = await client.request<{
       team: {
+        key: string;
         issues: {
           pageInfo: { hasNextPage: boolean; endCursor?: string };
           nodes: LinearIssue[];
@@ -588,6 +999,7 @@ export async function fetchAllIssuesPaginated(
       };
     }>(query, variables);
 
+    teamKey = result.team.key;
     const issues = result.team.issues.nodes.map(linearToBdIssue);
 
     // Track all issue IDs for stale pruning
@@ -618,8 +1030,8 @@ export async function fetchAllIssuesPaginated(
     cursor = result.team.issues.pageInfo.endCursor;
   }
 
-  // Prune stale issues that are no longer in remote
-  const pruned = pruneStaleIssues(allIssueIds);
+  // Prune the team's stale issues that are no longer in remote
+  const pruned = pruneStaleIssues(allIssueIds, teamKey);
 
   updateLastSync();
   updateLastFullSync();
@@ -834,6 +1246,19 @@ export async function fetchRelations(issueIds: string[]): Promise<void> {
   }
 }
 
+/**
+ * Map a temporary ID (TMP-001) to the Linear identifier it was created as.
+ * Throws while the create is still waiting in the outbox.
+ */
+function toLinearIdentifier(issueId: string): string {
+  if (!isTempId(issueId)) return issueId;
+  const realId = getRemappedId(issueId);
+  if (!realId) {
+    throw new Error(`${issueId} is still queued for creation in Linear. Run lb sync first`);
+  }
+  return realId;
+}
+
 /**
  * Fetch single issue by ID
  */
@@ -850,12 +1275,17 @@ export async function fetchIssue(issueId: string): Promise<Issue | null> {
 
   try {
     const result = await client.request<{ issue: LinearIssue | null }>(query, {
-      id: issueId,
+      id: toLinearIdentifier(issueId),
     });
 
     if (!result.issue) return null;
 
     const issue = linearToBdIssue(result.issue);
+    const duplicateOf = result.issue.relations?.nodes.find((rel) => rel.type === "duplicate");
+    if (issue.resolution === "wont_fix" && duplicateOf) {
+      issue.resolution = "duplicate";
+      issue.duplicate_of = duplicateOf.relatedIssue.identifier;
+    }
     cacheIssue(issue);
 
     // Clear old deps before caching fresh ones (prevents stale data)
@@ -900,6 +1330,14 @@ export async function fetchIssue(issueId: string): Promise<Issue | null> {
       }
     }
 
+    // Cache comments
+    if (result.issue.comments?.nodes) {
+      replaceIssueComments(
+        result.issue.identifier,
+        result.issue.comments.nodes.map((c) => linearToComment(result.issue!.identifier, c))
+      );
+    }
+
     return issue;
   } catch {
     return null;
@@ -911,6 +1349,7 @@ export async function fetchIssue(issueId: string): Promise<Issue | null> {
  */
 export async function resolveIssueId(issueId: string): Promise<string | null> {
   const client = getGraphQLClient();
+  const identifier = toLinearIdentifier(issueId);
 
   const query = `
     query GetIssue($id: String!) {
@@ -922,7 +1361,7 @@ export async function resolveIssueId(issueId: string): Promise<string | null> {
 
   try {
     const result = await client.request<{ issue: { id: string } | null }>(query, {
-      id: issueId,
+      id: identifier,
     });
     return result.issue?.id || null;
   } catch {
@@ -938,10 +1377,15 @@ export async function createIssue(params: {
   description?: string;
   priority: Priority;
   issueType?: IssueType; // Optional - only used when use_types is enabled
+  estimate?: number;
+  dueDate?: string;
+  cycle?: number;
+  milestone?: string;
   teamId: string;
   parentId?: string;
   assigneeId?: string;
   status?: IssueStatus;
+  labels?: string[];
 }): Promise<Issue> {
   const client = getGraphQLClient();
 
@@ -960,6 +1404,11 @@ export async function createIssue(params: {
     labelIds.push(typeLabelId);
   }
 
+  // Add user labels (created in the team if missing)
+  for (const name of params.labels || []) {
+    labelIds.push(await ensureLabel(params.teamId, name));
+  }
+
   // Get project ID if using project or both scoping
   let projectId: string | undefined;
   if (useProjectScope()) {
@@ -1011,6 +1460,22 @@ export async function createIssue(params: {
     input.assigneeId = params.assigneeId;
   }
 
+  if (params.estimate !== undefined) {
+    input.estimate = params.estimate;
+  }
+
+  if (params.dueDate) {
+    input.dueDate = params.dueDate;
+  }
+
+  if (params.cycle !== undefined) {
+    input.cycleId = await getCycleId(params.teamId, params.cycle);
+  }
+
+  if (params.milestone) {
+    input.projectMilestoneId = await getMilestoneId(params.teamId, params.milestone);
+  }
+
   const result = await client.request<{
     issueCreate: { success: boolean; issue: LinearIssue | null };
   }>(mutation, { input });
@@ -1034,23 +1499,50 @@ export async function updateIssue(
     description?: string;
     status?: Issue["status"];
     priority?: Priority;
+    estimate?: number | null;
+    due_date?: string | null;
+    cycle?: number | null;
+    milestone?: string | null;
     assigneeId?: string | null;
+    labels?: string[];
+    removeLabels?: string[];
   },
   teamId: string
 ): Promise<Issue> {
   const client = getGraphQLClient();
+  issueId = toLinearIdentifier(issueId);
 
   // Build input
   const input: Record<string, unknown> = {};
   if (updates.title) input.title = updates.title;
   if (updates.description !== undefined) input.description = updates.description;
   if (updates.priority !== undefined) input.priority = priorityToLinear(updates.priority);
+  // null clears the estimate
+  if (updates.estimate !== undefined) input.estimate = updates.estimate;
+  if (updates.due_date !== undefined) input.dueDate = updates.due_date;
+  if (updates.cycle !== undefined) {
+    input.cycleId = updates.cycle === null ? null : await getCycleId(teamId, updates.cycle);
+  }
+  if (updates.milestone !== undefined) {
+    input.projectMilestoneId =
+      updates.milestone === null ? null : await getMilestoneId(teamId, updates.milestone);
+  }
   if (updates.status) {
     input.stateId = await getWorkflowStateId(teamId, updates.status);
   }
   if (updates.assigneeId !== undefined) {
     input.assigneeId = updates.assigneeId;
   }
+  if (updates.labels && updates.labels.length > 0) {
+    input.addedLabelIds = await Promise.all(
+      updates.labels.map((name) => ensureLabel(teamId, name))
+    );
+  }
+  if (updates.removeLabels && updates.removeLabels.length > 0) {
+    // Labels that don't exist in Linear can't be on the issue, so skip them
+    const ids = await Promise.all(updates.removeLabels.map((name) => findLabelId(teamId, name)));
+    input.removedLabelIds = ids.filter((id): id is string => id !== null);
+  }
 
   const mutation = `
     mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
@@ -1081,6 +1573,7 @@ export async function updateIssue(
  */
 export async function updateIssueParent(issueId: string, parentId: string): Promise<void> {
   const client = getGraphQLClient();
+  issueId = toLinearIdentifier(issueId);
 
   // Resolve parentId if it's an identifier
   const parentUuid = (await resolveIssueId(parentId)) || parentId;
@@ -1105,9 +1598,16 @@ export async function updateIssueParent(issueId: string, parentId: string): Prom
 /**
  * Close issue in Linear
  */
-export async function closeIssue(issueId: string, teamId: string, reason?: string): Promise<Issue> {
+export async function closeIssue(
+  issueId: string,
+  teamId: string,
+  reason?: string,
+  resolution: Resolution = "done",
+  duplicateOf?: string
+): Promise<Issue> {
   const client = getGraphQLClient();
-  const stateId = await getWorkflowStateId(teamId, "closed");
+  issueId = toLinearIdentifier(issueId);
+  const stateId = await getWorkflowStateId(teamId, "closed", resolution);
 
   // Build input - add reason as comment if provided
   const input: Record<string, unknown> = { stateId };
@@ -1148,7 +1648,16 @@ export async function closeIssue(issueId: string, teamId: string, reason?: strin
     });
   }
 
+  // Linear tracks duplicates as a relation to the canonical issue
+  if (resolution === "duplicate" && duplicateOf) {
+    await createRelation(issueId, duplicateOf, "duplicate");
+  }
+
   const issue = linearToBdIssue(result.issueUpdate.issue);
+  if (resolution === "duplicate") {
+    issue.resolution = "duplicate";
+    issue.duplicate_of = duplicateOf;
+  }
   cacheIssue(issue);
   return issue;
 }
@@ -1159,7 +1668,7 @@ export async function closeIssue(issueId: string, teamId: string, reason?: strin
 export async function createRelation(
   issueId: string,
   relatedIssueId: string,
-  type: "blocks" | "related"
+  type: "blocks" | "related" | "duplicate"
 ): Promise<void> {
   const client = getGraphQLClient();
 
@@ -1189,11 +1698,11 @@ export async function createRelation(
     throw new Error("Failed to create relation");
   }
 
-  // Cache the dependency
+  // Cache the dependency (duplicates show up as related, like other relation types)
   cacheDependency({
     issue_id: issueId,
     depends_on_id: relatedIssueId,
-    type,
+    type: type === "duplicate" ? "related" : type,
     created_at: new Date().toISOString(),
     created_by: "user",
   });
@@ -1327,19 +1836,29 @@ export async function deleteIssue(issueId: string): Promise<void> {
 /**
  * Add comment to an issue
  */
-export async function addComment(issueId: string, body: string): Promise<void> {
+export async function addComment(issueId: string, body: string): Promise<Comment> {
   const client = getGraphQLClient();
+  issueId = toLinearIdentifier(issueId);
 
   const mutation = `
     mutation CreateComment($input: CommentCreateInput!) {
       commentCreate(input: $input) {
         success
+        comment {
+          ${COMMENT_FRAGMENT}
+          issue {
+            identifier
+          }
+        }
       }
     }
   `;
 
   const result = await client.request<{
-    commentCreate: { success: boolean };
+    commentCreate: {
+      success: boolean;
+      comment: (LinearComment & { issue: { identifier: string } }) | null;
+    };
   }>(mutation, {
     input: {
       issueId,
@@ -1347,9 +1866,86 @@ export async function addComment(issueId: string, body: string): Promise<void> {
     },
   });
 
-  if (!result.commentCreate.success) {
+  if (!result.commentCreate.success || !result.commentCreate.comment) {
     throw new Error("Failed to create comment");
   }
+
+  const linear = result.commentCreate.comment;
+  const comment = linearToComment(linear.issue.identifier, linear);
+  cacheComment(comment);
+  return comment;
+}
+
+/**
+ * Edit the body of an existing comment
+ */
+export async function updateComment(commentId: string, body: string): Promise<Comment> {
+  const client = getGraphQLClient();
+
+  const mutation = `
+    mutation UpdateComment($id: String!, $input: CommentUpdateInput!) {
+      commentUpdate(id: $id, input: $input) {
+        success
+        comment {
+          ${COMMENT_FRAGMENT}
+          issue {
+            identifier
+          }
+        }
+      }
+    }
+  `;
+
+  const result = await client.request<{
+    commentUpdate: {
+      success: boolean;
+      comment: (LinearComment & { issue: { identifier: string } }) | null;
+    };
+  }>(mutation, { id: commentId, input: { body } });
+
+  if (!result.commentUpdate.success || !result.commentUpdate.comment) {
+    throw new Error("Failed to update comment");
+  }
+
+  const linear = result.commentUpdate.comment;
+  const comment = linearToComment(linear.issue.identifier, linear);
+  cacheComment(comment);
+  return comment;
+}
+
+/**
+ * Fetch all comments for an issue and refresh the cache
+ */
+export async function fetchComments(issueId: string): Promise<Comment[]> {
+  const client = getGraphQLClient();
+  issueId = toLinearIdentifier(issueId);
+
+  const query = `
+    query GetIssueComments($id: String!) {
+      issue(id: $id) {
+        identifier
+        comments {
+          nodes {
+            ${COMMENT_FRAGMENT}
+          }
+        }
+      }
+    }
+  `;
+
+  const result = await client.request<{
+    issue: { identifier: string; comments: { nodes: LinearComment[] } } | null;
+  }>(query, { id: issueId });
+
+  if (!result.issue) {
+    throw new Error(`Issue not found: ${issueId}`);
+  }
+
+  const comments = result.issue.comments.nodes.map((c) =>
+    linearToComment(result.issue!.identifier, c)
+  );
+  replaceIssueComments(result.issue.identifier, comments);
+  return comments;
 }
 
 /**
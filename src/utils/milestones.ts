@@ -0,0 +1,55 @@
+/**
+ * Milestones of the repo project: lookups and progress
+ *
+ * Progress follows Linear's milestone view: canceled issues (won't fix,
+ * duplicates) are out of scope, so they count neither as work left nor done.
+ */
+
+import { getCachedIssues, getCachedMilestoneByName } from "./database.js";
+import { fetchMilestones, getTeamId } from "./linear.js";
+import { isLocalOnly, useProjectScope } from "./config.js";
+import { summarizeProgress } from "./progress.js";
+import type { Issue, Milestone, Progress } from "../types.js";
+
+/**
+ * Throw unless milestones are available (local-only, or project scoping)
+ */
+export function assertMilestonesEnabled(): void {
+  if (!isLocalOnly() && !useProjectScope()) {
+    throw new Error("Milestones belong to the repo project. Set repo_scope to project or both");
+  }
+}
+
+/**
+ * Find a milestone by name, re-fetching milestones from Linear if it isn't cached
+ */
+export async function resolveMilestone(name: string, teamKey?: string): Promise<Milestone> {
+  assertMilestonesEnabled();
+  let milestone = getCachedMilestoneByName(name);
+  if (!milestone && !isLocalOnly()) {
+    await fetchMilestones(await getTeamId(teamKey));
+    milestone = getCachedMilestoneByName(name);
+  }
+  if (!milestone) {
+    throw new Error(`Milestone not found: ${name}. Create it with lb milestone create`);
+  }
+  return milestone;
+}
+
+/**
+ * Cached issues in a milestone
+ */
+export function getMilestoneIssues(milestone: Milestone): Issue[] {
+  const name = milestone.name.toLowerCase();
+  return getCachedIssues().filter((i) => i.milestone?.toLowerCase() === name);
+}
+
+/**
+ * Progress of a milestone's issues, or null if it has none in scope
+ */
+export function getMilestoneProgress(milestone: Milestone): Progress | null {
+  const inScope = getMilestoneIssues(milestone).filter(
+    (i) => i.resolution !== "wont_fix" && i.resolution !== "duplicate"
+  );
+  return summarizeProgress(inScope);
+}
@@ -0,0 +1,56 @@
+/**
+ * Conflict detection for queued updates
+ *
+ * When an update is queued, the cached version of the fields it changes is
+ * recorded as payload.base. Before the update is applied, the issue is
+ * re-fetched: if someone changed one of those fields in Linear since then (to
+ * something other than what we're setting), the update is parked instead of
+ * overwriting their edit. Edits to other fields merge cleanly because an
+ * update only sends the fields it changes.
+ */
+
+import { fetchIssue } from "./linear.js";
+import { UPDATE_CONFLICT_FIELDS } from "../types.js";
+import type { UpdateBase } from "../types.js";
+
+/**
+ * Thrown when a queued update would overwrite newer edits made in Linear
+ */
+export class OutboxConflictError extends Error {
+  constructor(
+    public issueId: string,
+    public fields: string[]
+  ) {
+    super(`${issueId} changed in Linear after this update was queued (${fields.join(", ")})`);
+    this.name = "OutboxConflictError";
+  }
+}
+
+/**
+ * Compare field values, treating a missing description as empty
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return (a ?? "") === (b ?? "");
+}
+
+/**
+ * Throw OutboxConflictError if a queued update conflicts with the issue in Linear
+ */
+export async function assertNoUpdateConflict(payload: Record<string, unknown>): Promise<void> {
+  const base = payload.base as UpdateBase | undefined;
+  if (!base || typeof payload.issueId !== "string") return;
+
+  const remote = await fetchIssue(payload.issueId);
+  if (!remote || remote.updated_at <= base.updated_at) return;
+
+  const conflicting = UPDATE_CONFLICT_FIELDS.filter(
+    (field) =>
+      field in base &&
+      payload[field] !== undefined &&
+      !sameValue(remote[field], base[field]) &&
+      !sameValue(remote[field], payload[field])
+  );
+  if (conflicting.length > 0) {
+    throw new OutboxConflictError(payload.issueId, conflicting);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Outbox retry policy - error classification, backoff and dead-lettering
+ *
+ * Failed items are retried with exponential backoff based on retry_count.
+ * Items that fail with a permanent error (validation, not found) or run out of
+ * attempts are dead-lettered: kept in the outbox for `lb outbox list` but no
+ * longer processed. Updates that conflict with newer Linear edits are parked
+ * the same way, flagged as conflicts. Items waiting for a queued create to
+ * reach Linear aren't failing, so waiting doesn't use up attempts.
+ */
+
+import { ClientError } from "graphql-request";
+import {
+  findUnresolvedTempIds,
+  getPendingOutboxItems,
+  updateOutboxItemError,
+  updateOutboxItemWaiting,
+} from "./database.js";
+import { RateLimitError } from "./rate-limit.js";
+import { OutboxConflictError } from "./outbox-conflicts.js";
+import { getMaxOutboxAttempts } from "./config.js";
+import type { OutboxItem } from "../types.js";
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Thrown for an item that refers to issues whose queued creates haven't reached Linear yet
+ */
+export class OutboxWaitError extends Error {
+  constructor(public tempIds: string[]) {
+    super(`Waiting for ${tempIds.join(", ")} to be created in Linear`);
+    this.name = "OutboxWaitError";
+  }
+}
+
+/**
+ * Throw if an item refers to temporary IDs that aren't in Linear yet.
+ * Throws OutboxWaitError while their creates are still queued; once a create
+ * is dead-lettered or dropped the item can never go through, so that's a
+ * permanent failure.
+ */
+export function assertTempIdsCreated(item: OutboxItem): void {
+  const waitingFor = findUnresolvedTempIds(item.payload);
+  if (waitingFor.length === 0) return;
+
+  const queued = new Set(
+    getPendingOutboxItems()
+      .filter((other) => other.operation === "create")
+      .map((other) => other.payload.tempId)
+  );
+  const lost = waitingFor.filter((id) => !queued.has(id));
+  if (lost.length > 0) {
+    throw new Error(
+      `Invalid reference: ${lost.join(", ")} failed to be created in Linear (see lb outbox list)`
+    );
+  }
+  throw new OutboxWaitError(waitingFor);
+}
+
+/**
+ * Check if error is a network/connectivity issue
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const msg = error.message.toLowerCase();
+  return (
+    msg.includes("fetch failed") ||
+    msg.includes("network") ||
+    msg.includes("econnrefused") ||
+    msg.includes("enotfound") ||
+    msg.includes("etimedout") ||
+    msg.includes("unable to connect")
+  );
+}
+
+/**
+ * Error codes/types reported by Linear in GraphQL error extensions (lowercased)
+ */
+function linearErrorCodes(error: ClientError): string[] {
+  return (error.response.errors || []).flatMap((e) => {
+    const extensions = (e.extensions || {}) as { code?: unknown; type?: unknown };
+    return [extensions.code, extensions.type]
+      .filter((v): v is string => typeof v === "string")
+      .map((v) => v.toLowerCase());
+  });
+}
+
+/**
+ * Check if Linear rejected a request for exceeding its rate limit
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (error instanceof RateLimitError) return true;
+  if (!(error instanceof ClientError)) return false;
+  return (
+    error.response.status === 429 ||
+    linearErrorCodes(error).some((code) => code.replace(/[^a-z]/g, "") === "ratelimited")
+  );
+}
+
+/**
+ * Check if a failed outbox item is worth retrying.
+ * Network problems, rate limits, server errors and auth problems (which aren't
+ * the item's fault) are retryable; validation and not-found errors are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isNetworkError(error) || isRateLimitError(error)) return true;
+
+  if (error instanceof ClientError) {
+    const status = error.response.status;
+    if (status >= 500 || status === 401 || status === 403) return true;
+    const codes = linearErrorCodes(error);
+    if (codes.some((code) => code.includes("authentication") || code.includes("forbidden"))) {
+      return true;
+    }
+    return codes.some((code) => code.includes("internal"));
+  }
+
+  if (error instanceof Error && /not found|invalid|validation/i.test(error.message)) {
+    return false;
+  }
+
+  // Unknown failures get the benefit of the doubt (bounded by max attempts)
+  return true;
+}
+
+/**
+ * Delay before the next attempt after `retryCount` failures (2s, 4s, 8s, ... capped at 5m)
+ */
+export function getRetryDelayMs(retryCount: number): number {
+  if (retryCount <= 0) return 0;
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (retryCount - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Check if an item's backoff has elapsed
+ */
+export function isOutboxItemDue(item: OutboxItem, now: number = Date.now()): boolean {
+  if (item.retry_count === 0 || !item.last_attempt_at) return true;
+  return now >= Date.parse(item.last_attempt_at) + getRetryDelayMs(item.retry_count);
+}
+
+/**
+ * Record a failed attempt, dead-lettering the item if the error is permanent
+ * or it has used up its attempts. Returns true if the item was dead-lettered.
+ * Waiting for a queued create isn't counted as an attempt.
+ */
+export function recordOutboxFailure(item: OutboxItem, error: unknown): boolean {
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  if (error instanceof OutboxWaitError) {
+    updateOutboxItemWaiting(item.id, errorMsg);
+    return false;
+  }
+  if (error instanceof OutboxConflictError) {
+    updateOutboxItemError(item.id, errorMsg, true, true);
+    return true;
+  }
+  const attempts = item.retry_count + 1;
+  const dead = !isRetryableError(error) || attempts >= getMaxOutboxAttempts();
+  updateOutboxItemError(item.id, errorMsg, dead);
+  return dead;
+}
@@ -3,7 +3,8 @@
  * Ensures bd-compatible JSON output
  */
 
-import type { Issue, Dependency } from "../types.js";
+import type { Issue, Dependency, Comment, Progress } from "../types.js";
+import { formatDue, isOverdue } from "./due-dates.js";
 
 /**
  * Format issues for JSON output (always returns array)
@@ -14,9 +15,10 @@ export function formatIssuesJson(issues: Issue[]): string {
 
 /**
  * Format single issue for JSON output (returns array with one element)
+ * Extra fields (e.g. duplicate candidates) are merged into the issue object.
  */
-export function formatIssueJson(issue: Issue): string {
-  return JSON.stringify([issue], null, 2);
+export function formatIssueJson(issue: Issue, extra?: Record<string, unknown>): string {
+  return JSON.stringify([extra ? { ...issue, ...extra } : issue], null, 2);
 }
 
 /**
@@ -37,8 +39,15 @@ export function formatIssuesListJson(
     created_at: issue.created_at,
     updated_at: issue.updated_at,
     closed_at: issue.closed_at,
+    ...(issue.resolution ? { resolution: issue.resolution } : {}),
+    ...(issue.estimate !== undefined ? { estimate: issue.estimate } : {}),
+    ...(issue.due_date ? { due_date: issue.due_date } : {}),
+    ...(issue.cycle !== undefined ? { cycle: issue.cycle } : {}),
+    ...(issue.milestone ? { milestone: issue.milestone } : {}),
+    ...(issue.team ? { team: issue.team } : {}),
     // bd-style: only include assignee if non-null
     ...(issue.assignee ? { assignee: issue.assignee } : {}),
+    ...(issue.labels && issue.labels.length > 0 ? { labels: issue.labels } : {}),
     dependency_count: getDependencyCount(issue.id),
     dependent_count: getDependentCount(issue.id),
   }));
@@ -61,8 +70,13 @@ export function formatReadyJson(
     ...(issue.issue_type ? { issue_type: issue.issue_type } : {}),
     created_at: issue.created_at,
     updated_at: issue.updated_at,
+    ...(issue.due_date ? { due_date: issue.due_date } : {}),
+    ...(issue.cycle !== undefined ? { cycle: issue.cycle } : {}),
+    ...(issue.milestone ? { milestone: issue.milestone } : {}),
+    ...(issue.team ? { team: issue.team } : {}),
     // bd-style: only include assignee if non-null
     ...(issue.assignee ? { assignee: issue.assignee } : {}),
+    ...(issue.labels && issue.labels.length > 0 ? { labels: issue.labels } : {}),
     dependencies: getDependencies(issue.id),
   }));
   return JSON.stringify(formatted, null, 2);
@@ -83,8 +97,16 @@ export function formatShowJson(issue: Issue, dependencies?: Dependency[]): strin
     created_at: issue.created_at,
     updated_at: issue.updated_at,
     closed_at: issue.closed_at,
+    ...(issue.resolution ? { resolution: issue.resolution } : {}),
+    ...(issue.duplicate_of ? { duplicate_of: issue.duplicate_of } : {}),
+    ...(issue.estimate !== undefined ? { estimate: issue.estimate } : {}),
+    ...(issue.due_date ? { due_date: issue.due_date } : {}),
+    ...(issue.cycle !== undefined ? { cycle: issue.cycle } : {}),
+    ...(issue.milestone ? { milestone: issue.milestone } : {}),
+    ...(issue.team ? { team: issue.team } : {}),
     // bd-style: only include assignee if non-null
     ...(issue.assignee ? { assignee: issue.assignee } : {}),
+    ...(issue.labels && issue.labels.length > 0 ? { labels: issue.labels } : {}),
     ...(dependencies && dependencies.length > 0 ? { dependencies } : {}),
   };
   return JSON.stringify([formatted], null, 2);
@@ -101,20 +123,46 @@ const PRIORITY_LABELS: Record<number, string> = {
   4: "backlog",
 };
 
+/**
+ * Story points for display, e.g. "1 point", "5 points"
+ */
+export function formatPoints(points: number): string {
+  return `${points} point${points === 1 ? "" : "s"}`;
+}
+
 /**
  * Format issue for human-readable output
  */
 export function formatIssueHuman(issue: Issue): string {
   const lines: string[] = [];
   lines.push(`${issue.id}: ${issue.title}`);
-  lines.push(`  Status: ${issue.status}`);
+  const resolution = issue.resolution ? ` (${issue.resolution.replace("_", " ")})` : "";
+  lines.push(`  Status: ${issue.status}${resolution}`);
+  if (issue.duplicate_of) {
+    lines.push(`  Duplicate of: ${issue.duplicate_of}`);
+  }
   lines.push(`  Priority: ${PRIORITY_LABELS[issue.priority] || issue.priority}`);
   if (issue.issue_type) {
     lines.push(`  Type: ${issue.issue_type}`);
   }
+  if (issue.estimate !== undefined) {
+    lines.push(`  Estimate: ${formatPoints(issue.estimate)}`);
+  }
+  if (issue.due_date) {
+    lines.push(`  Due: ${issue.due_date}${isOverdue(issue) ? " (overdue)" : ""}`);
+  }
+  if (issue.cycle !== undefined) {
+    lines.push(`  Cycle: ${issue.cycle}`);
+  }
+  if (issue.milestone) {
+    lines.push(`  Milestone: ${issue.milestone}`);
+  }
   if (issue.assignee) {
     lines.push(`  Assignee: ${issue.assignee}`);
   }
+  if (issue.labels && issue.labels.length > 0) {
+    lines.push(`  Labels: ${issue.labels.join(", ")}`);
+  }
   if (issue.description) {
     lines.push(`  Description: ${issue.description}`);
   }
@@ -137,12 +185,65 @@ export function formatIssuesListHuman(issues: Issue[]): string {
     const status = issue.status.padEnd(11);
     const priority = PRIORITY_LABELS[issue.priority]?.slice(0, 4).padEnd(4) || "    ";
     const title = issue.title.slice(0, 60);
-    lines.push(`${id}  ${status}  ${priority}  ${title}`);
+    lines.push(`${id}  ${status}  ${priority}  ${title}${formatDue(issue)}`);
   }
 
   return lines.join("\n");
 }
 
+/**
+ * Format the summary of a bulk update/close (or what it would do with --dry-run)
+ */
+export function formatBulkSummary(action: string, issues: Issue[], dryRun: boolean): string {
+  const count = `${issues.length} issue${issues.length === 1 ? "" : "s"}`;
+  if (issues.length === 0) {
+    return dryRun ? `Would ${action} no issues.` : `No issues to ${action}.`;
+  }
+
+  const done = `${action.charAt(0).toUpperCase()}${action.slice(1)}d`;
+  const lines = [dryRun ? `Would ${action} ${count}:` : `${done} ${count}:`];
+  lines.push(formatIssuesListHuman(issues));
+  if (dryRun) {
+    lines.push("", "Dry run: nothing changed. Run without --dry-run to apply.");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Render a percentage as a fixed-width bar
+ */
+export function formatProgressBar(percent: number, width: number = 20): string {
+  const filled = Math.round((percent / 100) * width);
+  return `[${"█".repeat(filled)}${"░".repeat(width - filled)}]`;
+}
+
+/**
+ * Format epic progress as one line, e.g. "[███░░] 60% (3/5 closed; 1 open, 1 in_progress)"
+ */
+export function formatProgressHuman(progress: Progress): string {
+  const remaining = Object.entries(progress.by_status)
+    .filter(([status]) => status !== "closed")
+    .map(([status, count]) => `${count} ${status}`);
+  const rest = remaining.length > 0 ? `; ${remaining.join(", ")}` : "";
+  const points = progress.points
+    ? `, ${progress.points.closed}/${formatPoints(progress.points.total)} done`
+    : "";
+  return `${formatProgressBar(progress.percent)} ${progress.percent}% (${progress.closed}/${progress.total} closed${rest})${points}`;
+}
+
+/**
+ * Format a comment for human-readable output
+ */
+export function formatCommentHuman(comment: Comment): string {
+  const author = comment.author ? ` by ${comment.author}` : "";
+  const edited = comment.updated_at !== comment.created_at ? " (edited)" : "";
+  const lines = [`[${comment.id}]${author} at ${comment.created_at}${edited}`];
+  for (const line of comment.body.split("\n")) {
+    lines.push(`  ${line}`);
+  }
+  return lines.join("\n");
+}
+
 /**
  * Output result (JSON or human-readable)
  */
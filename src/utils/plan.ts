@@ -0,0 +1,149 @@
+/**
+ * Work plan: topological waves of open issues and the critical path
+ *
+ * Follows the same rules as lb ready: an issue waits for everything blocking
+ * it or one of its ancestors. Parents with open subtasks are containers, not
+ * work items: they aren't scheduled themselves, and an issue blocked by one
+ * waits for all of its open subtasks instead.
+ */
+
+import {
+  getCachedIssues,
+  getDependencies,
+  getChildIds,
+  getInverseDependencies,
+} from "./database.js";
+import type { Issue } from "../types.js";
+
+/**
+ * An issue scheduled in a plan
+ */
+export interface PlannedIssue {
+  issue: Issue;
+  wave: number;
+  // Scheduled issues that must be closed first
+  after: string[];
+}
+
+/**
+ * Open work in dependency order
+ */
+export interface Plan {
+  // Each wave can run in parallel once the previous waves are done
+  waves: PlannedIssue[][];
+  // Longest chain of issues that must happen one after another
+  criticalPath: string[];
+  // Issues caught in dependency cycles (see lb dep check), never scheduled
+  cyclic: string[];
+}
+
+/**
+ * Build the plan for all open issues, or for root's open subtasks and whatever blocks them
+ */
+export function buildPlan(rootId?: string): Plan {
+  const open = new Map<string, Issue>();
+  for (const issue of getCachedIssues()) {
+    if (issue.status !== "closed") open.set(issue.id, issue);
+  }
+
+  const openChildren = (id: string) => getChildIds(id).filter((c) => open.has(c));
+
+  // Open leaf issues under an issue (the issue itself if it has no open subtasks)
+  const leaves = (id: string, seen: Set<string> = new Set()): string[] => {
+    if (seen.has(id)) return [];
+    seen.add(id);
+    const children = openChildren(id);
+    if (children.length === 0) return open.has(id) ? [id] : [];
+    return children.flatMap((child) => leaves(child, seen));
+  };
+
+  // Leaves that must be closed before an issue can start
+  const waitsFor = (id: string): Set<string> => {
+    const result = new Set<string>();
+    const seen = new Set<string>();
+    let current: string | undefined = id;
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      for (const dep of getInverseDependencies(current)) {
+        if (dep.type !== "blocks" || !open.has(dep.issue_id)) continue;
+        for (const leaf of leaves(dep.issue_id)) {
+          if (leaf !== id) result.add(leaf);
+        }
+      }
+      current = getDependencies(current).find((d) => d.type === "parent-child")?.depends_on_id;
+    }
+    return result;
+  };
+
+  // Scope: every open leaf, or root's leaves plus everything they transitively wait for
+  const preds = new Map<string, Set<string>>();
+  const pending = rootId
+    ? leaves(rootId)
+    : [...open.keys()].filter((id) => openChildren(id).length === 0);
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (preds.has(id)) continue;
+    const before = waitsFor(id);
+    preds.set(id, before);
+    pending.push(...before);
+  }
+
+  // Kahn's algorithm, one wave at a time
+  const remaining = new Map([...preds].map(([id, before]) => [id, new Set(before)]));
+  const waves: PlannedIssue[][] = [];
+  while (remaining.size > 0) {
+    const ready = [...remaining].filter(([, before]) => before.size === 0).map(([id]) => id);
+    if (ready.length === 0) break;
+
+    const wave = ready
+      .map((id) => ({ issue: open.get(id)!, wave: waves.length + 1, after: [...preds.get(id)!] }))
+      .sort(
+        (a, b) =>
+          a.issue.priority - b.issue.priority ||
+          a.issue.id.localeCompare(b.issue.id, undefined, { numeric: true })
+      );
+    waves.push(wave);
+
+    for (const id of ready) {
+      remaining.delete(id);
+    }
+    for (const before of remaining.values()) {
+      for (const id of ready) before.delete(id);
+    }
+  }
+
+  return {
+    waves,
+    criticalPath: criticalPath(waves),
+    cyclic: [...remaining.keys()].sort(),
+  };
+}
+
+/**
+ * Longest chain through the scheduled issues, each issue counting as one step
+ */
+function criticalPath(waves: PlannedIssue[][]): string[] {
+  const length = new Map<string, number>();
+  const via = new Map<string, string>();
+  let end: string | undefined;
+
+  // Waves are in dependency order, so predecessors are always measured first
+  for (const planned of waves.flat()) {
+    const id = planned.issue.id;
+    let best = 0;
+    for (const before of planned.after) {
+      if ((length.get(before) ?? 0) > best) {
+        best = length.get(before)!;
+        via.set(id, before);
+      }
+    }
+    length.set(id, best + 1);
+    if (!end || length.get(id)! > length.get(end)!) end = id;
+  }
+
+  const path: string[] = [];
+  for (let id = end; id; id = via.get(id)) {
+    path.unshift(id);
+  }
+  return path;
+}
@@ -0,0 +1,51 @@
+/**
+ * Progress roll-up for parent issues (epics)
+ * Counts every cached descendant, so grandchildren count towards the epic
+ */
+
+import { getCachedIssue, getChildIds } from "./database.js";
+import type { Issue, Progress } from "../types.js";
+
+/**
+ * Collect descendant IDs depth-first, guarding against cycles in bad data
+ */
+function collectDescendants(issueId: string, seen: Set<string>): void {
+  for (const childId of getChildIds(issueId)) {
+    if (seen.has(childId)) continue;
+    seen.add(childId);
+    collectDescendants(childId, seen);
+  }
+}
+
+/**
+ * Progress of an issue's subtasks, or null if it has none in the cache
+ */
+export function getProgress(issueId: string): Progress | null {
+  const seen = new Set<string>([issueId]);
+  collectDescendants(issueId, seen);
+  seen.delete(issueId);
+
+  const issues = [...seen].map((id) => getCachedIssue(id)).filter((i): i is Issue => !!i);
+  return summarizeProgress(issues);
+}
+
+/**
+ * Count issues by status (and estimated points), or null if there are none
+ */
+export function summarizeProgress(issues: Issue[]): Progress | null {
+  const progress: Progress = { total: 0, closed: 0, percent: 0, by_status: {} };
+  for (const issue of issues) {
+    progress.total++;
+    progress.by_status[issue.status] = (progress.by_status[issue.status] || 0) + 1;
+    if (issue.status === "closed") progress.closed++;
+    if (issue.estimate !== undefined) {
+      progress.points ??= { total: 0, closed: 0 };
+      progress.points.total += issue.estimate;
+      if (issue.status === "closed") progress.points.closed += issue.estimate;
+    }
+  }
+
+  if (progress.total === 0) return null;
+  progress.percent = Math.round((progress.closed / progress.total) * 100);
+  return progress;
+}
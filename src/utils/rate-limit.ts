@@ -0,0 +1,237 @@
+/**
+ * Rate-limit aware fetch for the Linear GraphQL client
+ *
+ * Linear reports two budgets on every response (X-RateLimit-Requests-* and
+ * X-RateLimit-Complexity-*). We track both, pace and serialize requests when
+ * close to the limit, and retry RATELIMITED responses once the window resets.
+ */
+
+// Fraction of a budget below which requests are paced and run one at a time
+const LOW_BUDGET_FRACTION = 0.1;
+// Longest pause between paced requests
+const MAX_PACE_DELAY_MS = 5000;
+// Longest we'll block a command waiting for a budget to reset
+const MAX_WAIT_MS = 60 * 1000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_CONCURRENT_REQUESTS = 5;
+
+/**
+ * One rate-limit budget as last reported by Linear
+ */
+export interface RateLimitBudget {
+  limit: number;
+  remaining: number;
+  reset: string;
+}
+
+/**
+ * Remaining budgets (absent until a response carried the headers)
+ */
+export interface RateLimitStatus {
+  requests?: RateLimitBudget;
+  complexity?: RateLimitBudget;
+}
+
+/**
+ * Thrown instead of sending a request when the budget won't reset soon enough to wait
+ */
+export class RateLimitError extends Error {
+  constructor(public resetAt: number) {
+    super(`Linear rate limit reached; resets at ${new Date(resetAt).toLocaleTimeString()}`);
+    this.name = "RateLimitError";
+  }
+}
+
+interface BudgetWindow {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+const budgets: { requests?: BudgetWindow; complexity?: BudgetWindow } = {};
+// Complexity of the last query, used as the cost estimate for the next one
+let lastComplexity = 1;
+
+let activeRequests = 0;
+const waitingForSlot: Array<() => void> = [];
+
+/**
+ * Read a budget from X-RateLimit-<name>-Limit/Remaining/Reset headers
+ */
+function readBudget(headers: Headers, name: string): BudgetWindow | undefined {
+  const limit = Number(headers.get(`x-ratelimit-${name}-limit`));
+  const remaining = Number(headers.get(`x-ratelimit-${name}-remaining`));
+  const resetAt = Number(headers.get(`x-ratelimit-${name}-reset`));
+  if (!headers.has(`x-ratelimit-${name}-remaining`) || isNaN(remaining)) return undefined;
+  return { limit: limit || remaining, remaining, resetAt: resetAt || Date.now() };
+}
+
+/**
+ * Record the budgets reported by a response
+ */
+function recordBudgets(headers: Headers): void {
+  budgets.requests = readBudget(headers, "requests") ?? budgets.requests;
+  budgets.complexity = readBudget(headers, "complexity") ?? budgets.complexity;
+  const complexity = Number(headers.get("x-complexity"));
+  if (complexity > 0) {
+    lastComplexity = complexity;
+  }
+}
+
+/**
+ * Check if a budget is close to running out in its current window
+ */
+function isLow(window: BudgetWindow | undefined, now: number): boolean {
+  return !!window && now < window.resetAt && window.remaining <= window.limit * LOW_BUDGET_FRACTION;
+}
+
+/**
+ * How long to wait before spending `cost` from a budget
+ */
+function delayFor(window: BudgetWindow | undefined, cost: number, now: number): number {
+  if (!window || now >= window.resetAt) return 0;
+  // Exhausted: nothing to do but wait for the reset
+  if (window.remaining < cost) return window.resetAt - now;
+  if (!isLow(window, now)) return 0;
+  // Close to the limit: spread what's left over the rest of the window
+  const requestsLeft = Math.max(window.remaining / cost, 1);
+  return Math.min((window.resetAt - now) / requestsLeft, MAX_PACE_DELAY_MS);
+}
+
+/**
+ * Wait until both budgets allow another request
+ */
+async function waitForBudget(): Promise<void> {
+  const now = Date.now();
+  const delay = Math.max(
+    delayFor(budgets.requests, 1, now),
+    delayFor(budgets.complexity, lastComplexity, now)
+  );
+  if (delay > MAX_WAIT_MS) {
+    throw new RateLimitError(now + delay);
+  }
+  if (delay > 0) {
+    await sleep(delay);
+  }
+}
+
+/**
+ * Limit concurrent requests (one at a time when a budget is low)
+ */
+async function acquireSlot(): Promise<void> {
+  const maxActive = () => {
+    const now = Date.now();
+    return isLow(budgets.requests, now) || isLow(budgets.complexity, now)
+      ? 1
+      : MAX_CONCURRENT_REQUESTS;
+  };
+  while (activeRequests >= maxActive()) {
+    await new Promise<void>((resolve) => waitingForSlot.push(resolve));
+  }
+  activeRequests++;
+}
+
+/**
+ * Hand the slot to the next waiting request
+ */
+function releaseSlot(): void {
+  activeRequests--;
+  waitingForSlot.shift()?.();
+}
+
+/**
+ * Check if Linear rejected a response for exceeding the rate limit
+ */
+async function isRateLimitedResponse(response: Response): Promise<boolean> {
+  if (response.status === 429) return true;
+  if (response.ok) return false;
+  try {
+    const body = (await response.clone().json()) as {
+      errors?: Array<{ extensions?: { code?: string } }>;
+    };
+    return !!body.errors?.some((e) => e.extensions?.code === "RATELIMITED");
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * How long to wait before retrying a rate-limited request
+ */
+function retryDelay(response: Response, attempt: number): number {
+  const now = Date.now();
+  const exhausted = [budgets.requests, budgets.complexity].filter(
+    (w): w is BudgetWindow => !!w && w.remaining <= 0 && w.resetAt > now
+  );
+  if (exhausted.length > 0) {
+    return Math.max(...exhausted.map((w) => w.resetAt - now));
+  }
+  const retryAfter = Number(response.headers.get("retry-after"));
+  if (retryAfter > 0) {
+    return retryAfter * 1000;
+  }
+  return 1000 * 2 ** attempt;
+}
+
+/**
+ * fetch() replacement for the GraphQL client
+ */
+export async function rateLimitedFetch(
+  input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  await acquireSlot();
+  try {
+    for (let attempt = 0; ; attempt++) {
+      await waitForBudget();
+      const response = await fetch(input, init);
+      recordBudgets(response.headers);
+
+      if (attempt >= MAX_RATE_LIMIT_RETRIES || !(await isRateLimitedResponse(response))) {
+        return response;
+      }
+
+      const delay = retryDelay(response, attempt);
+      if (delay > MAX_WAIT_MS) {
+        throw new RateLimitError(Date.now() + delay);
+      }
+      await sleep(delay);
+    }
+  } finally {
+    releaseSlot();
+  }
+}
+
+/**
+ * Budgets reported by the most recent Linear responses in this process
+ */
+export function getRateLimitStatus(): RateLimitStatus {
+  const format = (window: BudgetWindow | undefined): RateLimitBudget | undefined =>
+    window && {
+      limit: window.limit,
+      remaining: window.remaining,
+      reset: new Date(window.resetAt).toISOString(),
+    };
+  const status: RateLimitStatus = {};
+  const requests = format(budgets.requests);
+  const complexity = format(budgets.complexity);
+  if (requests) status.requests = requests;
+  if (complexity) status.complexity = complexity;
+  return status;
+}
+
+/**
+ * Forget recorded budgets (useful for testing)
+ */
+export function resetRateLimits(): void {
+  delete budgets.requests;
+  delete budgets.complexity;
+  lastComplexity = 1;
+}
+
+/**
+ * Sleep for ms milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
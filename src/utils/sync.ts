@@ -4,93 +4,70 @@
 
 import {
   getPendingOutboxItems,
+  getOutboxItem,
   removeOutboxItem,
-  updateOutboxItemError,
   isCacheStale,
   getIncrementalSyncTimestamp,
   incrementSyncRunCount,
   needsFullSync,
   getLastSync,
+  pruneOtherTeams,
 } from "./database.js";
 import {
   fetchIssues,
   fetchAllIssuesPaginated,
+  fetchCycles,
+  fetchMilestones,
   fetchAllUpdatedIssues,
   getTeamId,
-  createIssue,
-  updateIssue,
-  closeIssue,
-  createRelation,
+  getSyncTeams,
 } from "./linear.js";
 import { exportToJsonl } from "./jsonl.js";
 import { isWorkerRunning } from "./pid-manager.js";
 import { ensureOutboxProcessed } from "./spawn-worker.js";
-import type { Issue, IssueType, Priority } from "../types.js";
+import { recordOutboxFailure } from "./outbox-retry.js";
+import { processOutboxItem } from "./background-sync-worker.js";
+import type { Issue } from "../types.js";
 
 /**
- * Process outbox queue - push pending mutations to Linear
+ * Result of pushing the outbox (dead = failures moved to the dead-letter state)
  */
-export async function pushOutbox(teamId: string): Promise<{ success: number; failed: number }> {
+export interface PushResult {
+  success: number;
+  failed: number;
+  dead: number;
+}
+
+/**
+ * Process outbox queue - push pending mutations to Linear.
+ * Ignores backoff (an explicit sync retries everything still pending).
+ * Creates go to the team they were queued for and changes to the issue's own team;
+ * teamId is the fallback when neither is known.
+ */
+export async function pushOutbox(teamId: string): Promise<PushResult> {
   const items = getPendingOutboxItems();
   let success = 0;
   let failed = 0;
+  let dead = 0;
+
+  for (const queued of items) {
+    // Re-read: an earlier create may have remapped temporary IDs in this payload
+    const item = getOutboxItem(queued.id);
+    if (!item) continue;
 
-  for (const item of items) {
     try {
-      switch (item.operation) {
-        case "create": {
-          const payload = item.payload as {
-            title: string;
-            description?: string;
-            priority: Priority;
-            issueType?: IssueType;
-            parentId?: string;
-          };
-          await createIssue({
-            ...payload,
-            teamId,
-          });
-          break;
-        }
-        case "update": {
-          const payload = item.payload as {
-            issueId: string;
-            title?: string;
-            description?: string;
-            status?: Issue["status"];
-            priority?: Priority;
-          };
-          await updateIssue(payload.issueId, payload, teamId);
-          break;
-        }
-        case "close": {
-          const payload = item.payload as {
-            issueId: string;
-            reason?: string;
-          };
-          await closeIssue(payload.issueId, teamId, payload.reason);
-          break;
-        }
-        case "create_relation": {
-          const payload = item.payload as {
-            issueId: string;
-            relatedIssueId: string;
-            type: "blocks" | "related";
-          };
-          await createRelation(payload.issueId, payload.relatedIssueId, payload.type);
-          break;
-        }
-      }
+      await processOutboxItem(item, teamId);
       removeOutboxItem(item.id);
       success++;
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      updateOutboxItemError(item.id, errorMsg);
+      if (recordOutboxFailure(item, error)) {
+        dead++;
+      }
       failed++;
     }
   }
 
-  return { success, failed };
+  return { success, failed, dead };
 }
 
 /**
@@ -103,11 +80,13 @@ export async function pullFromLinear(teamId: string): Promise<Issue[]> {
 
 /**
  * Incremental sync - only fetch issues updated since last sync.
+ * Pulls every configured team plus any from teamKey (comma-separated).
  * Returns count of updated issues, or null if no last sync (first run).
  */
 export async function incrementalSync(teamKey?: string): Promise<{
-  pushed: { success: number; failed: number };
+  pushed: PushResult;
   pulled: number;
+  teams: string[];
   type: "incremental";
 } | null> {
   const since = getIncrementalSyncTimestamp();
@@ -116,13 +95,16 @@ export async function incrementalSync(teamKey?: string): Promise<{
     return null;
   }
 
-  const teamId = await getTeamId(teamKey);
+  const teams = await getSyncTeams(teamKey);
 
   // Push first
-  const pushed = await pushOutbox(teamId);
+  const pushed = await pushOutbox(teams[0].id);
 
   // Pull only updated issues
-  const issues = await fetchAllUpdatedIssues(teamId, since);
+  let pulled = 0;
+  for (const team of teams) {
+    pulled += (await fetchAllUpdatedIssues(team.id, since)).length;
+  }
 
   // Export to JSONL
   exportToJsonl();
@@ -132,27 +114,41 @@ export async function incrementalSync(teamKey?: string): Promise<{
 
   return {
     pushed,
-    pulled: issues.length,
+    pulled,
+    teams: teams.map((team) => team.key),
     type: "incremental",
   };
 }
 
 /**
  * Full sync with pagination - fetches all issues and prunes stale ones.
+ * Syncs every configured team plus any from teamKey (comma-separated), and
+ * prunes issues of teams that are no longer synced.
  */
 export async function fullSyncPaginated(teamKey?: string): Promise<{
-  pushed: { success: number; failed: number };
+  pushed: PushResult;
   pulled: number;
   pruned: number;
+  teams: string[];
   type: "full";
 }> {
-  const teamId = await getTeamId(teamKey);
+  const teams = await getSyncTeams(teamKey);
 
   // Push first
-  const pushed = await pushOutbox(teamId);
+  const pushed = await pushOutbox(teams[0].id);
 
-  // Pull all issues with pagination
-  const { issues, pruned } = await fetchAllIssuesPaginated(teamId);
+  // Pull all issues with pagination, team by team
+  let pulled = 0;
+  let pruned = 0;
+  for (const team of teams) {
+    const result = await fetchAllIssuesPaginated(team.id);
+    pulled += result.issues.length;
+    pruned += result.pruned;
+    await fetchCycles(team.id);
+  }
+  // Milestones belong to the repo project, which all teams share
+  await fetchMilestones(teams[0].id);
+  pruned += pruneOtherTeams(teams.map((team) => team.key));
 
   // Export to JSONL
   exportToJsonl();
@@ -162,8 +158,9 @@ export async function fullSyncPaginated(teamKey?: string): Promise<{
 
   return {
     pushed,
-    pulled: issues.length,
+    pulled,
     pruned,
+    teams: teams.map((team) => team.key),
     type: "full",
   };
 }
@@ -172,7 +169,7 @@ export async function fullSyncPaginated(teamKey?: string): Promise<{
  * Full sync - push then pull (legacy, uses non-paginated fetch)
  */
 export async function fullSync(teamKey?: string): Promise<{
-  pushed: { success: number; failed: number };
+  pushed: PushResult;
   pulled: number;
 }> {
   const teamId = await getTeamId(teamKey);
@@ -201,9 +198,10 @@ export async function smartSync(
   teamKey?: string,
   forceFullSync: boolean = false
 ): Promise<{
-  pushed: { success: number; failed: number };
+  pushed: PushResult;
   pulled: number;
   pruned?: number;
+  teams?: string[];
   type: "incremental" | "full" | "skipped";
 }> {
   // Check if we should do a full sync
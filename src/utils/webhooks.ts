@@ -0,0 +1,271 @@
+/**
+ * Linear webhook handling for lb serve --webhooks
+ * Verifies signatures and applies Issue, IssueRelation and Comment events to the cache
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  cacheIssue,
+  cacheDependency,
+  cacheComment,
+  deleteCachedIssue,
+  deleteCachedComment,
+  deleteDependency,
+  getCachedIssue,
+  getCachedCycleById,
+  getCachedMilestoneById,
+  getIssueIdByLinearId,
+  setCachedParent,
+} from "./database.js";
+import { linearToBdIssue } from "./linear.js";
+import { getRepoLabel, getRepoName, getRepoScope, getSyncTeamKeys } from "./config.js";
+import type { LinearIssue } from "../types.js";
+
+// How far webhookTimestamp may be from our clock before a delivery is rejected
+const WEBHOOK_MAX_AGE_MS = 60 * 1000;
+
+/**
+ * Webhook payload as delivered by Linear
+ */
+export interface WebhookEvent {
+  action: "create" | "update" | "remove";
+  type: string;
+  data: Record<string, unknown>;
+  createdAt?: string;
+  webhookTimestamp?: number;
+}
+
+/**
+ * Outcome of applying one event (ignored events carry the reason)
+ */
+export interface WebhookResult {
+  applied: boolean;
+  id?: string;
+  reason?: string;
+}
+
+// Fields of Issue webhook data that we use
+interface WebhookIssueData {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string | null;
+  priority: number;
+  estimate?: number | null;
+  dueDate?: string | null;
+  cycleId?: string | null;
+  projectMilestoneId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string | null;
+  canceledAt?: string | null;
+  state?: { id: string; name: string; type: string };
+  labels?: Array<{ id: string; name: string }>;
+  assignee?: { id: string; name: string; email?: string } | null;
+  assigneeId?: string | null;
+  parentId?: string | null;
+  team?: { key: string };
+  project?: { name: string } | null;
+}
+
+interface WebhookCommentData {
+  id: string;
+  body: string;
+  issueId: string;
+  createdAt: string;
+  updatedAt: string;
+  user?: { email?: string } | null;
+}
+
+interface WebhookRelationData {
+  type: string;
+  issueId: string;
+  relatedIssueId: string;
+  createdAt: string;
+  issue?: { identifier?: string };
+  relatedIssue?: { identifier?: string };
+}
+
+/**
+ * Check the Linear-Signature header (hex HMAC-SHA256 of the raw body)
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature) return false;
+  const expected = createHmac("sha256", secret).update(body).digest();
+  const actual = Buffer.from(signature, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check that the delivery was sent within WEBHOOK_MAX_AGE_MS of now, so a captured
+ * (validly signed) payload can't be replayed later
+ */
+export function isFreshWebhook(event: WebhookEvent, now: number = Date.now()): boolean {
+  const sentAt = event.webhookTimestamp;
+  return typeof sentAt === "number" && Math.abs(now - sentAt) <= WEBHOOK_MAX_AGE_MS;
+}
+
+/**
+ * Check if an issue belongs to this repo under the configured scoping mode
+ */
+function isInRepoScope(data: WebhookIssueData): boolean {
+  const labelMatch = (data.labels || []).some((l) => l.name === getRepoLabel());
+  const projectMatch = data.project?.name === (getRepoName() || "unknown");
+  switch (getRepoScope()) {
+    case "project":
+      return projectMatch;
+    case "both":
+      return labelMatch || projectMatch;
+    default:
+      return labelMatch;
+  }
+}
+
+/**
+ * Apply an Issue event
+ */
+function applyIssueEvent(action: WebhookEvent["action"], data: WebhookIssueData): WebhookResult {
+  const id = data.identifier;
+  const cached = getCachedIssue(id);
+
+  if (action === "remove") {
+    if (!cached) return { applied: false, id, reason: "not cached" };
+    deleteCachedIssue(id);
+    return { applied: true, id };
+  }
+
+  const teamKeys = getSyncTeamKeys();
+  if (teamKeys.length > 0 && data.team?.key && !teamKeys.includes(data.team.key)) {
+    return { applied: false, id, reason: `other team (${data.team.key})` };
+  }
+
+  if (!isInRepoScope(data)) {
+    // Label or project removed: the issue left this repo
+    if (!cached) return { applied: false, id, reason: "out of scope" };
+    deleteCachedIssue(id);
+    return { applied: true, id };
+  }
+
+  // Deliveries can arrive out of order (or be replayed); never go backwards
+  if (cached && cached.updated_at > data.updatedAt) {
+    return { applied: false, id, reason: "stale" };
+  }
+
+  if (!data.state) {
+    return { applied: false, id, reason: "missing state" };
+  }
+
+  const issue = linearToBdIssue({
+    ...data,
+    state: data.state,
+    labels: { nodes: data.labels || [] },
+    assignee: null,
+  } as LinearIssue);
+
+  // Webhooks only carry the cycle's UUID; keep the cached number if the cycle isn't cached
+  if (data.cycleId) {
+    const cycle = getCachedCycleById(data.cycleId);
+    issue.cycle = cycle ? cycle.number : cached?.cycle;
+  }
+
+  if (data.projectMilestoneId) {
+    const milestone = getCachedMilestoneById(data.projectMilestoneId);
+    issue.milestone = milestone ? milestone.name : cached?.milestone;
+  }
+
+  // Webhook assignees may not include an email; keep the cached one if unchanged
+  if (data.assignee?.email) {
+    issue.assignee = data.assignee.email;
+  } else if (data.assigneeId && cached?.assignee) {
+    issue.assignee = cached.assignee;
+  }
+
+  cacheIssue(issue);
+
+  if (data.parentId === null) {
+    setCachedParent(id, null);
+  } else if (data.parentId) {
+    const parentId = getIssueIdByLinearId(data.parentId);
+    if (parentId) {
+      setCachedParent(id, parentId);
+    }
+  }
+
+  return { applied: true, id };
+}
+
+/**
+ * Apply a Comment event (only for cached issues)
+ */
+function applyCommentEvent(
+  action: WebhookEvent["action"],
+  data: WebhookCommentData
+): WebhookResult {
+  if (action === "remove") {
+    deleteCachedComment(data.id);
+    return { applied: true, id: data.id };
+  }
+
+  const issueId = getIssueIdByLinearId(data.issueId);
+  if (!issueId) return { applied: false, id: data.id, reason: "issue not cached" };
+
+  cacheComment({
+    id: data.id,
+    issue_id: issueId,
+    body: data.body,
+    author: data.user?.email || undefined,
+    created_at: data.createdAt,
+    updated_at: data.updatedAt,
+  });
+  return { applied: true, id: data.id };
+}
+
+/**
+ * Apply an IssueRelation event (only when both issues can be identified)
+ */
+function applyRelationEvent(
+  action: WebhookEvent["action"],
+  data: WebhookRelationData
+): WebhookResult {
+  const issueId = data.issue?.identifier || getIssueIdByLinearId(data.issueId);
+  const relatedId = data.relatedIssue?.identifier || getIssueIdByLinearId(data.relatedIssueId);
+  if (!issueId || !relatedId) return { applied: false, reason: "issue not cached" };
+
+  const id = `${issueId} ${data.type} ${relatedId}`;
+  if (action === "remove") {
+    deleteDependency(issueId, relatedId);
+  } else {
+    cacheDependency({
+      issue_id: issueId,
+      depends_on_id: relatedId,
+      type: data.type === "blocks" ? "blocks" : "related",
+      created_at: data.createdAt,
+      created_by: "sync",
+    });
+  }
+  return { applied: true, id };
+}
+
+/**
+ * Apply a verified webhook event to the cache
+ */
+export function applyWebhookEvent(event: WebhookEvent): WebhookResult {
+  if (!event.data || !["create", "update", "remove"].includes(event.action)) {
+    return { applied: false, reason: "malformed event" };
+  }
+
+  switch (event.type) {
+    case "Issue":
+      return applyIssueEvent(event.action, event.data as unknown as WebhookIssueData);
+    case "Comment":
+      return applyCommentEvent(event.action, event.data as unknown as WebhookCommentData);
+    case "IssueRelation":
+      return applyRelationEvent(event.action, event.data as unknown as WebhookRelationData);
+    default:
+      return { applied: false, reason: `unsupported type ${event.type}` };
+  }
+}
@@ -19,8 +19,16 @@ import {
   setDefaultTimeout,
 } from "bun:test";
 import { GraphQLClient } from "graphql-request";
-import { mkdirSync, rmSync, writeFileSync, existsSync } from "fs";
+import { Database } from "bun:sqlite";
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from "fs";
 import { join } from "path";
+import { createHmac } from "crypto";
+import {
+  rateLimitedFetch,
+  getRateLimitStatus,
+  resetRateLimits,
+  RateLimitError,
+} from "../src/utils/rate-limit.js";
 
 // Increase timeout for API calls
 setDefaultTimeout(30000);
@@ -58,6 +66,48 @@ async function lbJson<T>(...args: string[]): Promise<T> {
   return JSON.parse(result.stdout);
 }
 
+// Helper to run lb in a test project directory, with extra environment variables
+async function lbIn(
+  cwd: string,
+  args: string[],
+  env: Record<string, string> = {}
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(["bun", "run", import.meta.dir + "/../src/cli.ts", ...args], {
+    cwd,
+    env: { ...process.env, ...env },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+
+  const stdout = await new Response(proc.stdout).text();
+  const stderr = await new Response(proc.stderr).text();
+  const exitCode = await proc.exited;
+
+  return { stdout, stderr, exitCode };
+}
+
+// Helper to run a script against lb's modules in a test project directory ($src is the
+// path to src/); returns its JSON output. Runs without Linear credentials unless env gives some.
+async function evalIn<T>(
+  cwd: string,
+  script: string,
+  env: Record<string, string> = {}
+): Promise<T> {
+  const src = import.meta.dir + "/../src";
+  const proc = Bun.spawn(["bun", "-e", script.replaceAll("$src", src)], {
+    cwd,
+    env: { ...process.env, LINEAR_API_KEY: "", ...env },
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const stdout = await new Response(proc.stdout).text();
+  const stderr = await new Response(proc.stderr).text();
+  if ((await proc.exited) !== 0) {
+    throw new Error(`script failed: ${stderr}`);
+  }
+  return JSON.parse(stdout);
+}
+
 // Helper to create test issue and track for cleanup
 async function createTestIssue(
   title: string,
@@ -69,7 +119,7 @@ async function createTestIssue(
     "--sync",
     ...extraArgs
   );
-  if (result[0].id !== "pending") {
+  if (!/^TMP-/.test(result[0].id)) {
     testIssueIds.push(result[0].id);
   }
   return result[0];
@@ -179,7 +229,7 @@ describe("lb CLI Integration Tests", () => {
         }>
       >("create", title, "-p", "1");
 
-      expect(result[0].id).toBe("pending");
+      expect(result[0].id).toMatch(/^TMP-\d+$/);
       expect(result[0].title).toBe(title);
 
       // Push it immediately so we can track it
@@ -252,6 +302,33 @@ describe("lb CLI Integration Tests", () => {
       expect(result.pushed.failed).toBe(0);
       expect(result.pulled).toBeGreaterThanOrEqual(0);
     });
+
+    test("should park queued updates that conflict with newer Linear edits", async () => {
+      const issue = await createTestIssue("Conflict test");
+      await lb("update", issue.id, "-d", "Edited in Linear", "--sync");
+
+      // An update queued against the description as it was before that edit
+      const db = new Database(join(import.meta.dir, "..", ".lb", "cache.db"));
+      const base = { updated_at: "2000-01-01T00:00:00.000Z", description: null };
+      db.run("INSERT INTO outbox (operation, payload) VALUES ('update', ?)", [
+        JSON.stringify({ issueId: issue.id, description: "Edited offline", base }),
+      ]);
+      db.close();
+
+      const result = await lbJson<{ conflicts: number }>("sync");
+      expect(result.conflicts).toBeGreaterThanOrEqual(1);
+
+      const items = await lbJson<
+        Array<{ id: number; state: string; payload: { issueId?: string } }>
+      >("outbox", "list");
+      const parked = items.find((item) => item.payload.issueId === issue.id);
+      expect(parked?.state).toBe("conflict");
+
+      const show = await lbJson<Array<{ description?: string }>>("show", issue.id, "--sync");
+      expect(show[0].description).toBe("Edited in Linear");
+
+      await lb("outbox", "drop", String(parked!.id));
+    });
   });
 
   describe("list", () => {
@@ -385,6 +462,25 @@ describe("lb CLI Integration Tests", () => {
     });
   });
 
+  describe("reopen", () => {
+    test("should reopen a closed parent with --sync", async () => {
+      const parent = await createTestIssue("Reopen parent");
+      const child = await createTestIssue("Reopen child", "--parent", parent.id);
+      await lbJson("close", child.id, "--sync");
+      await lbJson("close", parent.id, "--sync");
+
+      const reopened = await lbJson<Array<{ id: string; status: string }>>(
+        "reopen",
+        child.id,
+        "--sync"
+      );
+      expect(reopened[0].status).toBe("open");
+
+      const shown = await lbJson<Array<{ status: string }>>("show", parent.id, "--sync");
+      expect(shown[0].status).toBe("open");
+    });
+  });
+
   describe("show", () => {
     test("should show issue details", async () => {
       // Create an issue first
@@ -457,8 +553,8 @@ describe("lb CLI Integration Tests", () => {
       const title = `${TEST_PREFIX} Background sync test`;
       const createResult = await lbJson<Array<{ id: string; title: string }>>("create", title);
 
-      // Should return immediately with pending ID
-      expect(createResult[0].id).toBe("pending");
+      // Should return immediately with a temporary ID
+      expect(createResult[0].id).toMatch(/^TMP-\d+$/);
       expect(createResult[0].title).toBe(title);
 
       // Wait for worker to process queue (give it a few seconds)
@@ -472,7 +568,7 @@ describe("lb CLI Integration Tests", () => {
       const found = listResult.find((issue) => issue.title === title);
 
       expect(found).toBeDefined();
-      expect(found?.id).not.toBe("pending");
+      expect(found?.id).not.toMatch(/^TMP-/);
       expect(found?.id).toMatch(/^LIN-\d+$/); // Real Linear ID
     });
   });
@@ -726,21 +822,7 @@ describe("Local-only Mode", () => {
   const testDir = "/tmp/lb-local-test-" + Date.now();
 
   // Helper to run lb in the test directory
-  async function lbLocal(
-    ...args: string[]
-  ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
-    const proc = Bun.spawn(["bun", "run", import.meta.dir + "/../src/cli.ts", ...args], {
-      cwd: testDir,
-      stdout: "pipe",
-      stderr: "pipe",
-    });
-
-    const stdout = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
-    const exitCode = await proc.exited;
-
-    return { stdout, stderr, exitCode };
-  }
+  const lbLocal = (...args: string[]) => lbIn(testDir, args);
 
   // Helper to run lb and parse JSON output
   async function lbLocalJson<T>(...args: string[]): Promise<T> {
@@ -751,6 +833,9 @@ describe("Local-only Mode", () => {
     return JSON.parse(result.stdout);
   }
 
+  // Helper to run a script against lb's modules in the test directory
+  const evalLocal = <T>(script: string) => evalIn<T>(testDir, script);
+
   beforeAll(() => {
     // Create test directory with git init and local-only config
     mkdirSync(join(testDir, ".lb"), { recursive: true });
@@ -910,6 +995,42 @@ describe("Local-only Mode", () => {
 
       expect(result[0].priority).toBe(0);
     });
+
+    test("should accept custom statuses from workflow_states", async () => {
+      const configPath = join(testDir, ".lb", "config.jsonc");
+      writeFileSync(
+        configPath,
+        '{ "local_only": true, "workflow_states": { "In Review": "in_review" } }'
+      );
+      try {
+        const created = await lbLocalJson<Array<{ id: string }>>("create", "Custom status");
+        await lbLocal("update", created[0].id, "--status", "in_review");
+
+        const inReview = await lbLocalJson<Array<{ id: string }>>("list", "--status", "in_review");
+        expect(inReview.map((i) => i.id)).toContain(created[0].id);
+
+        // Work in review isn't ready to pick up
+        const ready = await lbLocalJson<Array<{ id: string }>>("ready");
+        expect(ready.map((i) => i.id)).not.toContain(created[0].id);
+
+        const invalid = await lbLocal("update", created[0].id, "--status", "in_qa");
+        expect(invalid.exitCode).toBe(1);
+        expect(invalid.stderr).toContain("in_review");
+
+        // Unmapped statuses are refused in filters too, before anything changes
+        const invalidWhere = await lbLocal(
+          "update",
+          "--where",
+          "status=in_qa",
+          "--priority",
+          "urgent"
+        );
+        expect(invalidWhere.exitCode).toBe(1);
+        expect(invalidWhere.stderr).toContain("Invalid status 'in_qa'");
+      } finally {
+        writeFileSync(configPath, '{ "local_only": true }');
+      }
+    });
   });
 
   describe("close", () => {
@@ -926,6 +1047,481 @@ describe("Local-only Mode", () => {
       expect(result[0].status).toBe("closed");
       expect(result[0].closed_at).toBeDefined();
     });
+
+    test("should record the resolution", async () => {
+      const created = await lbLocalJson<Array<{ id: string }>>("create", "Wont fix test");
+
+      await lbLocal("close", created[0].id, "--wont-fix");
+
+      const show = await lbLocalJson<Array<{ status: string; resolution?: string }>>(
+        "show",
+        created[0].id
+      );
+      expect(show[0].status).toBe("closed");
+      expect(show[0].resolution).toBe("wont_fix");
+    });
+
+    test("should close as duplicate of another issue", async () => {
+      const original = await lbLocalJson<Array<{ id: string }>>("create", "Duplicate original");
+      const copy = await lbLocalJson<Array<{ id: string }>>("create", "Duplicate copy");
+
+      const missingOf = await lbLocal("close", copy[0].id, "--resolution", "duplicate");
+      expect(missingOf.exitCode).toBe(1);
+
+      await lbLocal("close", copy[0].id, "--resolution", "duplicate", "--of", original[0].id);
+
+      const show = await lbLocalJson<
+        Array<{ resolution?: string; duplicate_of?: string; related?: string[] }>
+      >("show", copy[0].id);
+      expect(show[0].resolution).toBe("duplicate");
+      expect(show[0].duplicate_of).toBe(original[0].id);
+      expect(show[0].related).toContain(original[0].id);
+    });
+  });
+
+  describe("reopen", () => {
+    test("should reopen issue with reason and its closed parent", async () => {
+      const parent = await lbLocalJson<Array<{ id: string }>>("create", "Reopen parent");
+      const child = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Reopen child",
+        "--parent",
+        parent[0].id
+      );
+      await lbLocal("close", child[0].id, "--wont-fix");
+      await lbLocal("close", parent[0].id);
+
+      const result = await lbLocalJson<
+        Array<{ status: string; closed_at?: string; resolution?: string }>
+      >("reopen", child[0].id, "--reason", "Regressed");
+      expect(result[0].status).toBe("open");
+      expect(result[0].closed_at).toBeUndefined();
+      expect(result[0].resolution).toBeUndefined();
+
+      const show = await lbLocalJson<Array<{ status: string; comments?: Array<{ body: string }> }>>(
+        "show",
+        child[0].id
+      );
+      expect(show[0].status).toBe("open");
+      expect(show[0].comments?.map((c) => c.body)).toContain("Reopened: Regressed");
+
+      const parentShow = await lbLocalJson<Array<{ status: string }>>("show", parent[0].id);
+      expect(parentShow[0].status).toBe("open");
+    });
+
+    test("should refuse to reopen an open issue", async () => {
+      const created = await lbLocalJson<Array<{ id: string }>>("create", "Still open");
+
+      const result = await lbLocal("reopen", created[0].id);
+      expect(result.exitCode).toBe(1);
+    });
+  });
+
+  describe("bulk update and close", () => {
+    test("should update several issues by ID", async () => {
+      const a = await lbLocalJson<Array<{ id: string }>>("create", "Bulk update A");
+      const b = await lbLocalJson<Array<{ id: string }>>("create", "Bulk update B");
+
+      const result = await lbLocalJson<Array<{ id: string; priority: number }>>(
+        "update",
+        a[0].id,
+        b[0].id,
+        "--priority",
+        "high"
+      );
+
+      expect(result.map((i) => i.id).sort()).toEqual([a[0].id, b[0].id].sort());
+      expect(result.every((i) => i.priority === 1)).toBe(true);
+    });
+
+    test("should close subtasks matching filters, with --dry-run first", async () => {
+      const epic = await lbLocalJson<Array<{ id: string }>>("create", "Bulk epic");
+      const ids: string[] = [];
+      for (const title of ["Bulk child 1", "Bulk child 2", "Bulk child 3"]) {
+        const child = await lbLocalJson<Array<{ id: string }>>(
+          "create",
+          title,
+          "--parent",
+          epic[0].id
+        );
+        ids.push(child[0].id);
+      }
+      await lbLocal("update", ids[0], "--status", "in_progress");
+      await lbLocal("update", ids[1], "--status", "in_progress");
+
+      const dryRun = await lbLocal(
+        "close",
+        "--status",
+        "in_progress",
+        "--parent",
+        epic[0].id,
+        "--dry-run"
+      );
+      expect(dryRun.stdout).toContain("Would close 2 issues");
+      const unchanged = await lbLocalJson<Array<{ status: string }>>("show", ids[0]);
+      expect(unchanged[0].status).toBe("in_progress");
+
+      const closed = await lbLocalJson<Array<{ id: string; status: string }>>(
+        "close",
+        "--where",
+        `status=in_progress,parent=${epic[0].id}`
+      );
+      expect(closed.map((i) => i.id).sort()).toEqual([ids[0], ids[1]].sort());
+      expect(closed.every((i) => i.status === "closed")).toBe(true);
+
+      const untouched = await lbLocalJson<Array<{ status: string }>>("show", ids[2]);
+      expect(untouched[0].status).toBe("open");
+    });
+
+    test("should select by filter flags on update and by team on close", async () => {
+      const create = async (title: string, team: string) =>
+        (
+          await lbLocalJson<Array<{ id: string }>>(
+            "create",
+            title,
+            "--team",
+            team,
+            "--label",
+            "bulk-flags"
+          )
+        )[0].id;
+      const web = await create("Bulk flags web", "WEB");
+      const data = await create("Bulk flags data", "DATA");
+
+      const updated = await lbLocalJson<Array<{ id: string; priority: number }>>(
+        "update",
+        "--filter-label",
+        "bulk-flags",
+        "--team",
+        "WEB",
+        "--priority",
+        "urgent"
+      );
+      expect(updated.map((i) => i.id)).toEqual([web]);
+      expect(updated[0].priority).toBe(0);
+
+      const closed = await lbLocalJson<Array<{ id: string }>>(
+        "close",
+        "--label",
+        "bulk-flags",
+        "--team",
+        "DATA"
+      );
+      expect(closed.map((i) => i.id)).toEqual([data]);
+      const open = await lbLocalJson<Array<{ status: string }>>("show", web);
+      expect(open[0].status).toBe("open");
+    });
+
+    test("should reject IDs combined with filters", async () => {
+      const result = await lbLocal("close", "LOCAL-001", "--status", "open");
+      expect(result.exitCode).toBe(1);
+    });
+
+    test("should change nothing when any explicit ID doesn't exist", async () => {
+      const a = await lbLocalJson<Array<{ id: string }>>("create", "Bulk valid A");
+
+      const closed = await lbLocal("close", a[0].id, "LOCAL-999");
+      expect(closed.exitCode).toBe(1);
+      expect(closed.stderr).toContain("Issue not found: LOCAL-999");
+
+      const updated = await lbLocal("update", a[0].id, "LOCAL-999", "--priority", "urgent");
+      expect(updated.exitCode).toBe(1);
+      expect(updated.stderr).toContain("Issue not found: LOCAL-999");
+
+      const show = await lbLocalJson<Array<{ status: string; priority: number }>>("show", a[0].id);
+      expect(show[0].status).toBe("open");
+      expect(show[0].priority).not.toBe(0);
+    });
+  });
+
+  describe("epic", () => {
+    test("should roll up progress through grandchildren", async () => {
+      const epic = await lbLocalJson<Array<{ id: string }>>("create", "Progress epic");
+      const done = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Progress done",
+        "--parent",
+        epic[0].id
+      );
+      const story = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Progress story",
+        "--parent",
+        epic[0].id
+      );
+      const grandchild = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Progress grandchild",
+        "--parent",
+        story[0].id
+      );
+      await lbLocal("close", done[0].id, grandchild[0].id);
+
+      const show = await lbLocalJson<
+        Array<{ progress?: { total: number; closed: number; percent: number } }>
+      >("show", epic[0].id);
+      expect(show[0].progress).toMatchObject({ total: 3, closed: 2, percent: 67 });
+
+      const epics =
+        await lbLocalJson<Array<{ id: string; progress: { by_status: Record<string, number> } }>>(
+          "epic"
+        );
+      const entry = epics.find((e) => e.id === epic[0].id);
+      expect(entry?.progress.by_status).toEqual({ closed: 2, open: 1 });
+      expect(epics.find((e) => e.id === story[0].id)).toBeDefined();
+    });
+
+    test("should total subtask estimates", async () => {
+      const epic = await lbLocalJson<Array<{ id: string }>>("create", "Points epic", "-e", "1");
+      const done = await lbLocalJson<Array<{ id: string; estimate?: number }>>(
+        "create",
+        "Points done",
+        "--parent",
+        epic[0].id,
+        "--estimate",
+        "3"
+      );
+      expect(done[0].estimate).toBe(3);
+      const open = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Points open",
+        "--parent",
+        epic[0].id
+      );
+      await lbLocal("update", open[0].id, "--estimate", "5");
+      await lbLocal("close", done[0].id);
+
+      const list = await lbLocalJson<Array<{ id: string; estimate?: number }>>("list");
+      expect(list.find((i) => i.id === open[0].id)?.estimate).toBe(5);
+
+      const show = await lbLocal("show", epic[0].id);
+      expect(show.stdout).toContain("Estimate: 1 point");
+      expect(show.stdout).toContain("3/8 points done");
+
+      const cleared = await lbLocalJson<Array<{ estimate?: number }>>(
+        "update",
+        open[0].id,
+        "--clear-estimate"
+      );
+      expect(cleared[0].estimate).toBeUndefined();
+
+      const invalid = await lbLocal("update", open[0].id, "--estimate", "2.5");
+      expect(invalid.exitCode).toBe(1);
+    });
+  });
+
+  describe("cycles", () => {
+    test("should assign issues to cycles and filter ready work", async () => {
+      // Cycles come from Linear; seed the cache as a sync would
+      const day = 24 * 60 * 60 * 1000;
+      const at = (days: number) => new Date(Date.now() + days * day).toISOString();
+      const db = new Database(join(testDir, ".lb", "cache.db"));
+      const insert = db.prepare(
+        `INSERT INTO cycles (id, team_id, number, name, starts_at, ends_at)
+         VALUES (?, 'team', ?, ?, ?, ?)`
+      );
+      insert.run("cycle-7", 7, "Launch", at(-7), at(7));
+      insert.run("cycle-8", 8, null, at(7), at(21));
+      db.close();
+
+      const current = await lbLocalJson<Array<{ id: string; cycle?: number }>>(
+        "create",
+        "Sprint task",
+        "--cycle",
+        "current"
+      );
+      expect(current[0].cycle).toBe(7);
+      const later = await lbLocalJson<Array<{ id: string }>>("create", "Next sprint task");
+      await lbLocal("update", later[0].id, "--cycle", "next");
+
+      const ready = await lbLocalJson<Array<{ id: string }>>("ready", "--cycle", "current");
+      expect(ready.map((i) => i.id)).toEqual([current[0].id]);
+
+      const show = await lbLocal("show", later[0].id);
+      expect(show.stdout).toContain("Cycle: 8");
+
+      const cycles = await lbLocalJson<Array<{ number: number; state: string; issues: number }>>(
+        "cycle",
+        "list"
+      );
+      expect(cycles.map((c) => [c.number, c.state, c.issues])).toEqual([
+        [7, "current", 1],
+        [8, "upcoming", 1],
+      ]);
+
+      const active = await lbLocal("cycle", "current");
+      expect(active.stdout).toContain("Cycle 7 (Launch)");
+      expect(active.stdout).toContain(current[0].id);
+
+      const missing = await lbLocal("update", later[0].id, "--cycle", "42");
+      expect(missing.exitCode).toBe(1);
+    });
+
+    test("should resolve --cycle in each issue's own team", async () => {
+      // Two teams number their cycles independently; seed the cache as a sync would
+      const day = 24 * 60 * 60 * 1000;
+      const at = (days: number) => new Date(Date.now() + days * day).toISOString();
+      const db = new Database(join(testDir, ".lb", "cache.db"));
+      db.run("DELETE FROM cycles");
+      const insert = db.prepare(
+        `INSERT INTO cycles (id, team_id, team, number, starts_at, ends_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      );
+      insert.run("eng-7", "team-eng", "ENG", 7, at(-7), at(7));
+      insert.run("eng-8", "team-eng", "ENG", 8, at(7), at(21));
+      insert.run("ops-3", "team-ops", "OPS", 3, at(-3), at(11));
+      insert.run("ops-7", "team-ops", "OPS", 7, at(-60), at(-46));
+      db.close();
+
+      await evalLocal(`
+        import { cacheIssue } from "$src/utils/database.ts";
+        const now = new Date().toISOString();
+        for (const [id, team, cycle] of [["ENG-901", "ENG", 7], ["OPS-901", "OPS", 3], ["OPS-902", "OPS", 7]]) {
+          cacheIssue({ id, title: id, status: "open", priority: 2, created_at: now, updated_at: now, team, cycle });
+        }
+        console.log("{}");
+      `);
+
+      const current = await lbLocalJson<Array<{ id: string }>>("list", "--cycle", "current");
+      expect(current.map((i) => i.id).sort()).toEqual(["ENG-901", "OPS-901"]);
+      const numbered = await lbLocalJson<Array<{ id: string }>>("list", "--cycle", "7");
+      expect(numbered.map((i) => i.id).sort()).toEqual(["ENG-901", "OPS-902"]);
+      const ops = await lbLocalJson<Array<{ id: string }>>(
+        "list",
+        "--cycle",
+        "current",
+        "--team",
+        "OPS"
+      );
+      expect(ops.map((i) => i.id)).toEqual(["OPS-901"]);
+
+      const moved = await lbLocalJson<Array<{ cycle?: number }>>(
+        "update",
+        "OPS-902",
+        "--cycle",
+        "current"
+      );
+      expect(moved[0].cycle).toBe(3);
+      const noNext = await lbLocal("update", "ENG-901", "OPS-901", "--cycle", "next");
+      expect(noNext.exitCode).toBe(1);
+      expect(noNext.stderr).toContain("Cycle not found in every team");
+
+      const cleanup = new Database(join(testDir, ".lb", "cache.db"));
+      cleanup.run("DELETE FROM issues WHERE id IN ('ENG-901', 'OPS-901', 'OPS-902')");
+      cleanup.run("DELETE FROM cycles");
+      cleanup.close();
+    });
+  });
+
+  describe("milestones", () => {
+    test("should group issues into milestones with progress", async () => {
+      await lbLocal("milestone", "create", "Beta", "--target", "2030-06-01");
+      const done = await lbLocalJson<Array<{ id: string; milestone?: string }>>(
+        "create",
+        "Beta done",
+        "--milestone",
+        "beta"
+      );
+      expect(done[0].milestone).toBe("Beta");
+      const open = await lbLocalJson<Array<{ id: string }>>("create", "Beta open");
+      await lbLocal("update", open[0].id, "--milestone", "Beta");
+      const dropped = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Beta dropped",
+        "--milestone",
+        "Beta"
+      );
+      await lbLocal("close", done[0].id);
+      await lbLocal("close", dropped[0].id, "--wont-fix");
+
+      const listed = await lbLocalJson<Array<{ id: string }>>("list", "--milestone", "Beta");
+      expect(listed.map((i) => i.id)).toContain(open[0].id);
+      const ready = await lbLocalJson<Array<{ id: string }>>("ready", "--milestone", "Beta");
+      expect(ready.map((i) => i.id)).toEqual([open[0].id]);
+
+      // Won't-fix issues are out of scope, as in Linear's milestone progress
+      const milestones = await lbLocalJson<
+        Array<{ name: string; target_date: string; progress: { total: number; closed: number } }>
+      >("milestone", "list");
+      const beta = milestones.find((m) => m.name === "Beta")!;
+      expect(beta.target_date).toBe("2030-06-01");
+      expect(beta.progress.total).toBe(2);
+      expect(beta.progress.closed).toBe(1);
+
+      const missing = await lbLocal("update", open[0].id, "--milestone", "Gamma");
+      expect(missing.exitCode).toBe(1);
+    });
+  });
+
+  describe("teams", () => {
+    test("should keep the team on issues and filter across teams", async () => {
+      const platform = await lbLocalJson<Array<{ id: string; team?: string }>>(
+        "create",
+        "Platform task",
+        "--team",
+        "plat"
+      );
+      expect(platform[0].team).toBe("PLAT");
+      const app = await lbLocalJson<Array<{ id: string }>>("create", "App task", "--team", "APP");
+      const blocked = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Blocked app task",
+        "--team",
+        "APP",
+        "--blocked-by",
+        platform[0].id
+      );
+      const teamless = await lbLocalJson<Array<{ id: string }>>("create", "Teamless task");
+
+      const both = await lbLocalJson<Array<{ id: string; team?: string }>>(
+        "list",
+        "--team",
+        "plat,app"
+      );
+      const ids = both.map((i) => i.id);
+      expect(ids).toContain(platform[0].id);
+      expect(ids).toContain(app[0].id);
+      expect(ids).not.toContain(teamless[0].id);
+      expect(both.every((i) => i.team === "PLAT" || i.team === "APP")).toBe(true);
+
+      const ready = await lbLocalJson<Array<{ id: string }>>("ready", "--team", "APP");
+      expect(ready.map((i) => i.id)).toEqual([app[0].id]);
+
+      const appBlocked = await lbLocalJson<Array<{ id: string }>>("blocked", "--team", "APP");
+      expect(appBlocked.map((i) => i.id)).toEqual([blocked[0].id]);
+      const platformBlocked = await lbLocal("blocked", "--team", "PLAT");
+      expect(platformBlocked.stdout).toContain("No blocked issues");
+
+      const twoTeams = await lbLocal("create", "Shared task", "--team", "PLAT,APP");
+      expect(twoTeams.exitCode).toBe(1);
+    });
+  });
+
+  describe("plan", () => {
+    test("should order subtasks into waves with a critical path", async () => {
+      const epic = await lbLocalJson<Array<{ id: string }>>("create", "Plan epic");
+      const create = async (title: string, ...args: string[]) =>
+        (
+          await lbLocalJson<Array<{ id: string }>>("create", title, "--parent", epic[0].id, ...args)
+        )[0].id;
+      const design = await create("Plan design");
+      const build = await create("Plan build", "--blocked-by", design);
+      const verify = await create("Plan verify", "--blocked-by", build);
+      const docs = await create("Plan docs");
+
+      const plan = await lbLocalJson<{
+        waves: Array<Array<{ id: string; after: string[] }>>;
+        critical_path: string[];
+      }>("plan", epic[0].id);
+
+      expect(plan.waves.map((wave) => wave.map((i) => i.id).sort())).toEqual([
+        [design, docs].sort(),
+        [build],
+        [verify],
+      ]);
+      expect(plan.waves[1][0].after).toEqual([design]);
+      expect(plan.critical_path).toEqual([design, build, verify]);
+    });
   });
 
   describe("delete", () => {
@@ -963,6 +1559,40 @@ describe("Local-only Mode", () => {
       expect(result.some((i) => i.id === blocker[0].id)).toBe(true);
       expect(result.some((i) => i.id === blocked[0].id)).toBe(false);
     });
+
+    test("should put overdue issues first", async () => {
+      const urgent = await lbLocalJson<Array<{ id: string }>>("create", "Due urgent", "-p", "0");
+      const late = await lbLocalJson<Array<{ id: string; due_date?: string }>>(
+        "create",
+        "Due late",
+        "-p",
+        "backlog",
+        "--due",
+        "2020-01-15"
+      );
+      expect(late[0].due_date).toBe("2020-01-15");
+      await lbLocal("update", urgent[0].id, "--due", "+3d");
+
+      const ready = await lbLocalJson<Array<{ id: string }>>("ready");
+      const ids = ready.map((i) => i.id);
+      expect(ids.indexOf(late[0].id)).toBeLessThan(ids.indexOf(urgent[0].id));
+
+      const human = await lbLocal("ready");
+      expect(human.stdout).toContain("⚠ overdue (2020-01-15)");
+
+      const overdue = await lbLocalJson<Array<{ id: string }>>("list", "--overdue");
+      expect(overdue.map((i) => i.id)).toEqual([late[0].id]);
+
+      const soon = await lbLocalJson<Array<{ id: string }>>("list", "--due-before", "+1w");
+      expect(soon.map((i) => i.id).sort()).toEqual([late[0].id, urgent[0].id].sort());
+
+      await lbLocal("update", late[0].id, "--clear-due");
+      const show = await lbLocalJson<Array<{ due_date?: string }>>("show", late[0].id);
+      expect(show[0].due_date).toBeUndefined();
+
+      const invalid = await lbLocal("create", "Due never", "--due", "someday");
+      expect(invalid.exitCode).toBe(1);
+    });
   });
 
   describe("blocked", () => {
@@ -980,6 +1610,246 @@ describe("Local-only Mode", () => {
     });
   });
 
+  describe("labels", () => {
+    test("should set labels on create and filter list by label", async () => {
+      const created = await lbLocalJson<Array<{ id: string; labels?: string[] }>>(
+        "create",
+        "Label test",
+        "--label",
+        "frontend",
+        "--label",
+        "docs"
+      );
+      expect(created[0].labels).toEqual(["docs", "frontend"]);
+
+      const result = await lbLocalJson<Array<{ id: string }>>("list", "--label", "frontend");
+      expect(result.some((i) => i.id === created[0].id)).toBe(true);
+
+      const none = await lbLocalJson<Array<{ id: string }>>("list", "--label", "no-such-label");
+      expect(none.length).toBe(0);
+    });
+
+    test("should add and remove labels on update", async () => {
+      const created = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Label update test",
+        "--label",
+        "infra"
+      );
+
+      await lbLocal("update", created[0].id, "--label", "frontend", "--remove-label", "infra");
+
+      const show = await lbLocalJson<Array<{ labels?: string[] }>>("show", created[0].id);
+      expect(show[0].labels).toEqual(["frontend"]);
+    });
+  });
+
+  describe("search", () => {
+    test("should find issues by title and description words", async () => {
+      const byTitle = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Frobnicate the widget cache"
+      );
+      const byDesc = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Unrelated title",
+        "-d",
+        "The widget frobnicator crashes on startup"
+      );
+
+      const result = await lbLocalJson<Array<{ id: string; score: number }>>(
+        "search",
+        "frobnicat widget"
+      );
+      const ids = result.map((r) => r.id);
+
+      // Title matches rank above description-only matches
+      expect(ids.indexOf(byTitle[0].id)).toBeGreaterThanOrEqual(0);
+      expect(ids.indexOf(byTitle[0].id)).toBeLessThan(ids.indexOf(byDesc[0].id));
+    });
+
+    test("should reflect updates and filter by status", async () => {
+      const created = await lbLocalJson<Array<{ id: string }>>("create", "Zorblax migration");
+      await lbLocal("update", created[0].id, "--title", "Quuxify migration");
+
+      const old = await lbLocalJson<Array<{ id: string }>>("search", "zorblax");
+      expect(old.some((r) => r.id === created[0].id)).toBe(false);
+
+      await lbLocal("close", created[0].id);
+      const open = await lbLocalJson<Array<{ id: string }>>("search", "quuxify", "-s", "open");
+      expect(open.some((r) => r.id === created[0].id)).toBe(false);
+      const closed = await lbLocalJson<Array<{ id: string }>>("search", "quuxify", "-s", "closed");
+      expect(closed.some((r) => r.id === created[0].id)).toBe(true);
+    });
+  });
+
+  describe("duplicate detection", () => {
+    test("should report likely duplicates in JSON output", async () => {
+      const original = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Refactor payment webhook handler"
+      );
+
+      const dup = await lbLocalJson<Array<{ id: string; duplicates?: Array<{ id: string }> }>>(
+        "create",
+        "Refactor the payment webhook handlers"
+      );
+
+      expect(dup[0].id).toMatch(/^LOCAL-\d+$/);
+      expect(dup[0].duplicates?.map((d) => d.id)).toContain(original[0].id);
+    });
+
+    test("should refuse likely duplicates with --no-duplicates", async () => {
+      const original = await lbLocalJson<Array<{ id: string }>>(
+        "create",
+        "Rotate staging database credentials"
+      );
+
+      const result = await lbLocal(
+        "create",
+        "Rotate staging database credentials",
+        "--no-duplicates",
+        "--json"
+      );
+      expect(result.exitCode).not.toBe(0);
+      const parsed = JSON.parse(result.stdout) as {
+        created: boolean;
+        duplicates: Array<{ id: string }>;
+      };
+      expect(parsed.created).toBe(false);
+      expect(parsed.duplicates[0].id).toBe(original[0].id);
+    });
+  });
+
+  describe("outbox", () => {
+    test("should list an empty outbox", async () => {
+      const result = await lbLocalJson<unknown[]>("outbox", "list");
+      expect(result).toEqual([]);
+    });
+
+    test("should report dead-lettered items separately", async () => {
+      const db = new Database(join(testDir, ".lb", "cache.db"));
+      db.run(
+        `INSERT INTO outbox (operation, payload, retry_count, last_error, last_attempt_at, dead_at)
+         VALUES ('update', '{"issueId":"LIN-1","title":"x"}', 1, 'Entity not found', datetime('now'), datetime('now'))`
+      );
+      db.close();
+
+      const result = await lbLocalJson<Array<{ id: number; state: string; last_error: string }>>(
+        "outbox",
+        "list"
+      );
+      expect(result).toHaveLength(1);
+      expect(result[0].state).toBe("dead");
+      expect(result[0].last_error).toBe("Entity not found");
+
+      const human = await lbLocal("outbox", "list");
+      expect(human.stdout).toContain("Failed permanently");
+
+      await lbLocal("outbox", "drop", String(result[0].id));
+      expect(await lbLocalJson<unknown[]>("outbox", "list")).toEqual([]);
+    });
+
+    test("should fail to drop unknown items", async () => {
+      const result = await lbLocal("outbox", "drop", "999");
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stderr).toContain("not found");
+    });
+
+    test("should ask for --force before clearing, as JSON with --json", async () => {
+      const result = await lbLocal("outbox", "clear", "--json");
+      expect(result.exitCode).toBe(1);
+      const refused = JSON.parse(result.stdout);
+      expect(refused.cleared).toBe(0);
+      expect(refused.error).toContain("--force");
+    });
+
+    test("should not count waiting for a queued create as a failed attempt", async () => {
+      const db = new Database(join(testDir, ".lb", "cache.db"));
+      db.run(
+        `INSERT INTO outbox (operation, payload) VALUES ('create', '{"title":"Parent","tempId":"TMP-901"}')`
+      );
+      const create = db.query("SELECT last_insert_rowid() AS id").get() as { id: number };
+      db.run(
+        `INSERT INTO outbox (operation, payload) VALUES ('update', '{"issueId":"TMP-901","title":"x"}')`
+      );
+      const update = db.query("SELECT last_insert_rowid() AS id").get() as { id: number };
+      db.close();
+
+      // Try the update the way the worker does, a few times over
+      const attempt = `
+        import { getOutboxItem } from "$src/utils/database.ts";
+        import { assertTempIdsCreated, recordOutboxFailure } from "$src/utils/outbox-retry.ts";
+        let dead = false;
+        for (let i = 0; i < 10; i++) {
+          const item = getOutboxItem(${update.id});
+          try { assertTempIdsCreated(item); } catch (error) { dead = recordOutboxFailure(item, error); }
+        }
+        const item = getOutboxItem(${update.id});
+        console.log(JSON.stringify({ dead, retry_count: item.retry_count, last_error: item.last_error }));
+      `;
+      const waiting = await evalLocal<{ dead: boolean; retry_count: number; last_error: string }>(
+        attempt
+      );
+      expect(waiting).toEqual({
+        dead: false,
+        retry_count: 0,
+        last_error: "Waiting for TMP-901 to be created in Linear",
+      });
+
+      // Once the create is dead-lettered, the update can never go through
+      const dbAfter = new Database(join(testDir, ".lb", "cache.db"));
+      dbAfter.run("UPDATE outbox SET dead_at = datetime('now') WHERE id = ?", [create.id]);
+      dbAfter.close();
+      const lost = await evalLocal<{ dead: boolean; last_error: string }>(attempt);
+      expect(lost.dead).toBe(true);
+      expect(lost.last_error).toContain("TMP-901 failed to be created");
+
+      await lbLocal("outbox", "clear", "--force");
+    });
+  });
+
+  describe("comment", () => {
+    test("should add and list comments", async () => {
+      const issue = await lbLocalJson<Array<{ id: string }>>("create", "Comment target");
+
+      const added = await lbLocalJson<Array<{ id: string; body: string; issue_id: string }>>(
+        "comment",
+        "add",
+        issue[0].id,
+        "Progress note"
+      );
+      expect(added[0].id).toMatch(/^LOCAL-C-\d+$/);
+      expect(added[0].issue_id).toBe(issue[0].id);
+
+      const list = await lbLocalJson<Array<{ body: string }>>("comment", "list", issue[0].id);
+      expect(list.map((c) => c.body)).toEqual(["Progress note"]);
+    });
+
+    test("should edit comment and show it on the issue", async () => {
+      const issue = await lbLocalJson<Array<{ id: string }>>("create", "Comment edit target");
+      const added = await lbLocalJson<Array<{ id: string }>>(
+        "comment",
+        "add",
+        issue[0].id,
+        "First draft"
+      );
+
+      await lbLocal("comment", "edit", added[0].id, "Final text");
+
+      const show = await lbLocalJson<Array<{ comments?: Array<{ body: string }> }>>(
+        "show",
+        issue[0].id
+      );
+      expect(show[0].comments?.map((c) => c.body)).toEqual(["Final text"]);
+    });
+
+    test("should reject comments on unknown issues", async () => {
+      const result = await lbLocal("comment", "add", "LOCAL-999", "Nope");
+      expect(result.exitCode).not.toBe(0);
+    });
+  });
+
   describe("dep", () => {
     test("should add blocks dependency", async () => {
       const a = await lbLocalJson<Array<{ id: string }>>("create", "Dep A");
@@ -1026,5 +1896,796 @@ describe("Local-only Mode", () => {
       expect(result.exitCode).toBe(0);
       expect(result.stdout).toContain(parent[0].id);
     });
+
+    test("should walk dep tree in reverse, both ways and as JSON", async () => {
+      const a = await lbLocalJson<Array<{ id: string }>>("create", "Walk A");
+      const b = await lbLocalJson<Array<{ id: string }>>("create", "Walk B");
+      const c = await lbLocalJson<Array<{ id: string }>>("create", "Walk C");
+      await lbLocal("dep", "add", a[0].id, "--blocks", b[0].id);
+      await lbLocal("dep", "add", b[0].id, "--blocks", c[0].id);
+
+      const reverse = await lbLocal("dep", "tree", c[0].id, "--reverse");
+      expect(reverse.exitCode).toBe(0);
+      expect(reverse.stdout).toContain(`blocked by: ${b[0].id}`);
+      expect(reverse.stdout).toContain(`blocked by: ${a[0].id}`);
+
+      const shallow = await lbLocal("dep", "tree", c[0].id, "--reverse", "--depth", "1");
+      expect(shallow.stdout).not.toContain(a[0].id);
+
+      type Node = { id: string; relation?: string; ready: boolean; children: Node[] };
+      const both = await lbLocalJson<Node[]>("dep", "tree", b[0].id, "--both");
+      expect(both[0].ready).toBe(false);
+      expect(both[0].children.map((n) => [n.relation, n.id])).toEqual([
+        ["blocks", c[0].id],
+        ["blocked by", a[0].id],
+      ]);
+
+      const related = await lbLocalJson<Node[]>("dep", "tree", b[0].id, "--type", "related");
+      expect(related[0].children).toEqual([]);
+
+      const invalid = await lbLocal("dep", "tree", b[0].id, "--reverse", "--both");
+      expect(invalid.exitCode).toBe(1);
+    });
+
+    test("should not report an acyclic diamond as circular with --both", async () => {
+      // A blocks B and C, which both block D
+      const ids: string[] = [];
+      for (const title of ["Diamond A", "Diamond B", "Diamond C", "Diamond D"]) {
+        const created = await lbLocalJson<Array<{ id: string }>>("create", title);
+        ids.push(created[0].id);
+      }
+      const [a, b, c, d] = ids;
+      await lbLocal("dep", "add", a, "--blocks", b);
+      await lbLocal("dep", "add", a, "--blocks", c);
+      await lbLocal("dep", "add", b, "--blocks", d);
+      await lbLocal("dep", "add", c, "--blocks", d);
+
+      const tree = await lbLocal("dep", "tree", b, "--both");
+      expect(tree.exitCode).toBe(0);
+      expect(tree.stdout).toContain(`blocks: ${d}`);
+      expect(tree.stdout).toContain(`blocked by: ${a}`);
+      expect(tree.stdout).not.toContain("(circular)");
+    });
+
+    test("should refuse dependencies that create a cycle", async () => {
+      const a = await lbLocalJson<Array<{ id: string }>>("create", "Cycle A");
+      const b = await lbLocalJson<Array<{ id: string }>>("create", "Cycle B");
+      const c = await lbLocalJson<Array<{ id: string }>>("create", "Cycle C", "--parent", b[0].id);
+
+      await lbLocal("dep", "add", a[0].id, "--blocks", b[0].id);
+
+      // c inherits b's blockers, so c blocking a would deadlock all three
+      const result = await lbLocal("dep", "add", c[0].id, "--blocks", a[0].id);
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain(`${a[0].id} blocks ${b[0].id}`);
+
+      const self = await lbLocal("update", a[0].id, "--blocks", a[0].id);
+      expect(self.exitCode).toBe(1);
+
+      const show = await lbLocalJson<Array<{ blocks?: string[] }>>("show", c[0].id);
+      expect(show[0].blocks).toBeUndefined();
+    });
+
+    test("should export the graph around an issue as Mermaid and DOT", async () => {
+      const a = await lbLocalJson<Array<{ id: string }>>("create", "Graph A", "-p", "urgent");
+      const b = await lbLocalJson<Array<{ id: string }>>("create", 'Graph "B"');
+      await lbLocal("dep", "add", a[0].id, "--blocks", b[0].id);
+      const node = (id: string) => id.replace(/-/g, "_");
+
+      const mermaid = await lbLocal("dep", "graph", a[0].id);
+      expect(mermaid.exitCode).toBe(0);
+      expect(mermaid.stdout).toStartWith("flowchart LR");
+      expect(mermaid.stdout).toContain(`${node(a[0].id)} -->|blocks| ${node(b[0].id)}`);
+      expect(mermaid.stdout).toContain("#quot;B#quot;");
+      expect(mermaid.stdout).toContain(`style ${node(a[0].id)} fill:#ffffff,stroke:#e03131`);
+
+      const dot = await lbLocal("dep", "graph", b[0].id, "--format", "dot");
+      expect(dot.stdout).toStartWith("digraph dependencies {");
+      expect(dot.stdout).toContain(`"${a[0].id}" -> "${b[0].id}" [label="blocks"`);
+
+      const invalid = await lbLocal("dep", "graph", "--format", "svg");
+      expect(invalid.exitCode).toBe(1);
+    });
+
+    test("should find existing cycles with dep check", async () => {
+      const clean = await lbLocal("dep", "check");
+      expect(clean.exitCode).toBe(0);
+
+      const a = await lbLocalJson<Array<{ id: string }>>("create", "Check A");
+      const b = await lbLocalJson<Array<{ id: string }>>("create", "Check B");
+      await lbLocal("dep", "add", a[0].id, "--blocks", b[0].id);
+
+      // Simulate a cycle that arrived from Linear
+      const db = new Database(join(testDir, ".lb", "cache.db"));
+      db.run(
+        `INSERT INTO dependencies (issue_id, depends_on_id, type, created_at, created_by)
+         VALUES (?, ?, 'blocks', datetime('now'), 'sync')`,
+        [b[0].id, a[0].id]
+      );
+      db.close();
+
+      const result = await lbLocal("dep", "check", "--json");
+      expect(result.exitCode).toBe(1);
+      const problems = JSON.parse(result.stdout) as Array<{ type: string; issues: string[] }>;
+      expect(problems).toHaveLength(1);
+      expect(problems[0].type).toBe("cycle");
+      expect(problems[0].issues.sort()).toEqual([a[0].id, a[0].id, b[0].id].sort());
+
+      await lbLocal("dep", "remove", b[0].id, a[0].id);
+    });
+  });
+
+  describe("jsonl sync", () => {
+    const configPath = () => join(testDir, ".lb", "config.jsonc");
+    const jsonlPath = () => join(testDir, ".lb", "issues.jsonl");
+
+    // Edit issues.jsonl the way a git pull would
+    function editJsonl(edit: (lines: Array<Record<string, unknown>>) => void): void {
+      const lines = readFileSync(jsonlPath(), "utf-8")
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => JSON.parse(line));
+      edit(lines);
+      writeFileSync(jsonlPath(), lines.map((line) => JSON.stringify(line)).join("\n") + "\n");
+    }
+
+    beforeAll(() => {
+      writeFileSync(configPath(), '{ "local_only": true, "jsonl_sync": true }');
+    });
+
+    afterAll(() => {
+      writeFileSync(configPath(), '{ "local_only": true }');
+    });
+
+    test("should write issues.jsonl and import edits to it", async () => {
+      const created = await lbLocalJson<Array<{ id: string }>>("create", "JSONL original");
+      expect(readFileSync(jsonlPath(), "utf-8")).toContain("JSONL original");
+
+      editJsonl((lines) => {
+        const line = lines.find((l) => l.id === created[0].id)!;
+        line.title = "JSONL edited by teammate";
+        line.updated_at = new Date(Date.now() + 1000).toISOString();
+      });
+
+      const show = await lbLocalJson<Array<{ title: string }>>("show", created[0].id);
+      expect(show[0].title).toBe("JSONL edited by teammate");
+    });
+
+    test("should import new issues without reusing their IDs", async () => {
+      editJsonl((lines) => {
+        lines.push({
+          id: "LOCAL-900",
+          title: "JSONL from teammate",
+          status: "open",
+          priority: 2,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        });
+      });
+
+      const show = await lbLocalJson<Array<{ title: string }>>("show", "LOCAL-900");
+      expect(show[0].title).toBe("JSONL from teammate");
+
+      const next = await lbLocalJson<Array<{ id: string }>>("create", "JSONL after import");
+      expect(next[0].id).toBe("LOCAL-901");
+    });
+
+    test("should report conflicts and keep the local version", async () => {
+      const created = await lbLocalJson<Array<{ id: string }>>("create", "JSONL conflict");
+
+      // Local edit the file hasn't caught up with yet
+      writeFileSync(configPath(), '{ "local_only": true }');
+      await lbLocal("update", created[0].id, "--title", "JSONL conflict (mine)");
+      writeFileSync(configPath(), '{ "local_only": true, "jsonl_sync": true }');
+
+      editJsonl((lines) => {
+        lines.find((l) => l.id === created[0].id)!.title = "JSONL conflict (theirs)";
+      });
+
+      const result = await lbLocal("show", created[0].id, "--json");
+      expect(result.stderr).toContain(`Conflict: ${created[0].id}`);
+      expect(JSON.parse(result.stdout)[0].title).toBe("JSONL conflict (mine)");
+
+      // The teammate's edit is set aside, not overwritten
+      expect(readFileSync(jsonlPath(), "utf-8")).toContain("JSONL conflict (mine)");
+      const conflictsPath = join(testDir, ".lb", "issues.conflicts.jsonl");
+      const theirs = JSON.parse(readFileSync(conflictsPath, "utf-8").trim());
+      expect(theirs.id).toBe(created[0].id);
+      expect(theirs.title).toBe("JSONL conflict (theirs)");
+
+      // Taking their version: copy the line back into issues.jsonl
+      editJsonl((lines) => {
+        const index = lines.findIndex((l) => l.id === created[0].id);
+        lines[index] = { ...theirs, updated_at: new Date(Date.now() + 1000).toISOString() };
+      });
+      rmSync(conflictsPath);
+      const resolved = await lbLocalJson<Array<{ title: string }>>("show", created[0].id);
+      expect(resolved[0].title).toBe("JSONL conflict (theirs)");
+    });
+  });
+});
+
+/**
+ * Rate limiting tests
+ * Call rateLimitedFetch in-process with a stubbed fetch (no Linear API calls)
+ */
+describe("Rate Limiting", () => {
+  const realFetch = globalThis.fetch;
+  let calls = 0;
+
+  // Replace fetch with one that answers with the given responses in order
+  function stubFetch(...responses: Array<() => Response>): void {
+    calls = 0;
+    globalThis.fetch = (async () =>
+      responses[Math.min(calls++, responses.length - 1)]()) as typeof fetch;
+  }
+
+  function budgetHeaders(remaining: number, resetAt: number): Record<string, string> {
+    return {
+      "X-RateLimit-Requests-Limit": "100",
+      "X-RateLimit-Requests-Remaining": String(remaining),
+      "X-RateLimit-Requests-Reset": String(resetAt),
+      "X-RateLimit-Complexity-Limit": "10000",
+      "X-RateLimit-Complexity-Remaining": "9000",
+      "X-RateLimit-Complexity-Reset": String(resetAt),
+      "X-Complexity": "12",
+    };
+  }
+
+  beforeEach(() => {
+    resetRateLimits();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test("should record the budgets reported in response headers", async () => {
+    const resetAt = Date.now() + 30 * 60 * 1000;
+    stubFetch(() => new Response("{}", { headers: budgetHeaders(80, resetAt) }));
+
+    const response = await rateLimitedFetch("https://linear.test/graphql");
+    expect(response.status).toBe(200);
+    expect(getRateLimitStatus()).toEqual({
+      requests: { limit: 100, remaining: 80, reset: new Date(resetAt).toISOString() },
+      complexity: { limit: 10000, remaining: 9000, reset: new Date(resetAt).toISOString() },
+    });
+  });
+
+  test("should retry once after a 429 and return the successful response", async () => {
+    stubFetch(
+      () => new Response("Too Many Requests", { status: 429, headers: { "Retry-After": "1" } }),
+      () => new Response('{"data":{}}')
+    );
+
+    const response = await rateLimitedFetch("https://linear.test/graphql");
+    expect(response.status).toBe(200);
+    expect(calls).toBe(2);
+  });
+
+  test("should fail fast when the budget is exhausted until a distant reset", async () => {
+    const resetAt = Date.now() + 30 * 60 * 1000;
+    stubFetch(() => new Response("{}", { headers: budgetHeaders(0, resetAt) }));
+    await rateLimitedFetch("https://linear.test/graphql");
+
+    const error = await rateLimitedFetch("https://linear.test/graphql").catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).resetAt).toBeGreaterThanOrEqual(resetAt - 1000);
+    // Never sent: only the first request reached fetch
+    expect(calls).toBe(1);
+  });
+});
+
+/**
+ * Queued comment tests
+ * These tests run in an isolated directory without Linear credentials, so changes stay queued
+ */
+describe("Queued Comments", () => {
+  const testDir = "/tmp/lb-queued-comments-test-" + Date.now();
+
+  // Helper to run lb in the test directory without Linear credentials
+  const lbQueued = (...args: string[]) => lbIn(testDir, args, { LINEAR_API_KEY: "" });
+
+  beforeAll(() => {
+    mkdirSync(join(testDir, ".lb"), { recursive: true });
+    mkdirSync(join(testDir, ".git"), { recursive: true }); // Fake git repo
+    writeFileSync(
+      join(testDir, ".lb", "config.jsonc"),
+      JSON.stringify({ team_key: "ENG", repo_name: "queued-comments-test" })
+    );
+  });
+
+  afterAll(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should leave issue_id out of a queued edit of an uncached comment", async () => {
+    const result = await lbQueued(
+      "comment",
+      "edit",
+      "c0ffee00-uncached",
+      "Edited offline",
+      "--json"
+    );
+    expect(result.exitCode).toBe(0);
+    const [edited] = JSON.parse(result.stdout) as Array<Record<string, string>>;
+    expect(edited.id).toBe("c0ffee00-uncached");
+    expect(edited.body).toBe("Edited offline");
+    expect("issue_id" in edited).toBe(false);
+
+    const db = new Database(join(testDir, ".lb", "cache.db"));
+    const queued = db
+      .query("SELECT payload FROM outbox WHERE operation = 'update_comment'")
+      .all() as Array<{ payload: string }>;
+    db.close();
+    expect(queued.map((row) => JSON.parse(row.payload))).toEqual([
+      { commentId: "c0ffee00-uncached", body: "Edited offline" },
+    ]);
+  });
+});
+
+/**
+ * Queued create tests
+ * These tests run in an isolated directory without Linear credentials, so creates
+ * stay in the outbox under temporary IDs
+ */
+describe("Queued Creates", () => {
+  const testDir = "/tmp/lb-queued-test-" + Date.now();
+
+  // Helper to run lb in the test directory without Linear credentials (creates stay queued)
+  const lbQueued = (...args: string[]) => lbIn(testDir, args, { LINEAR_API_KEY: "" });
+
+  async function createQueued(title: string, ...args: string[]): Promise<string> {
+    const result = await lbQueued("create", title, ...args, "--json");
+    expect(result.exitCode).toBe(0);
+    return (JSON.parse(result.stdout) as Array<{ id: string }>)[0].id;
+  }
+
+  // Outbox payloads by operation, in queue order
+  function outboxPayloads(operation: string): Array<Record<string, string>> {
+    const db = new Database(join(testDir, ".lb", "cache.db"));
+    const rows = db
+      .query("SELECT payload FROM outbox WHERE operation = ? ORDER BY id")
+      .all(operation) as Array<{ payload: string }>;
+    db.close();
+    return rows.map((row) => JSON.parse(row.payload));
+  }
+
+  beforeAll(() => {
+    mkdirSync(join(testDir, ".lb"), { recursive: true });
+    mkdirSync(join(testDir, ".git"), { recursive: true }); // Fake git repo
+    writeFileSync(
+      join(testDir, ".lb", "config.jsonc"),
+      JSON.stringify({ team_key: "ENG", repo_name: "queued-test" })
+    );
+  });
+
+  afterAll(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should use temporary IDs until creates reach Linear, then remap them", async () => {
+    const parent = await createQueued("Queued parent");
+    expect(parent).toMatch(/^TMP-\d+$/);
+    const child = await createQueued("Queued child", "--parent", parent);
+    expect(child).toMatch(/^TMP-\d+$/);
+    const blocker = await createQueued("Queued blocker");
+    const dep = await lbQueued("dep", "add", blocker, "--blocks", child);
+    expect(dep.exitCode).toBe(0);
+
+    // The child's create and the relation wait for the issues they refer to
+    const waiting = await evalIn<string[][]>(
+      testDir,
+      `
+      import { getPendingOutboxItems, findUnresolvedTempIds } from "$src/utils/database.ts";
+      console.log(JSON.stringify(getPendingOutboxItems().map((i) => findUnresolvedTempIds(i.payload))));
+    `
+    );
+    expect(waiting.length).toBe(4);
+    expect(waiting[0]).toEqual([]);
+    expect(waiting[1]).toEqual([parent]);
+    expect(waiting[2]).toEqual([]);
+    expect(waiting[3].sort()).toEqual([blocker, child].sort());
+
+    // Linear created the parent as ENG-101
+    await evalIn(
+      testDir,
+      `
+      import { remapTempId } from "$src/utils/database.ts";
+      remapTempId("${parent}", "ENG-101");
+      console.log("{}");
+    `
+    );
+
+    const db = new Database(join(testDir, ".lb", "cache.db"));
+    const placeholder = db.query("SELECT id FROM issues WHERE id = ?").get(parent);
+    const parentLink = db
+      .query("SELECT depends_on_id FROM dependencies WHERE issue_id = ? AND type = 'parent-child'")
+      .get(child) as { depends_on_id: string };
+    const remapped = db.query("SELECT real_id FROM temp_ids WHERE temp_id = ?").get(parent) as {
+      real_id: string;
+    };
+    db.close();
+    expect(placeholder).toBeNull();
+    expect(parentLink.depends_on_id).toBe("ENG-101");
+    expect(remapped.real_id).toBe("ENG-101");
+
+    const creates = outboxPayloads("create");
+    expect(creates.find((p) => p.tempId === child)?.parentId).toBe("ENG-101");
+    expect(outboxPayloads("create_relation")).toEqual([
+      { issueId: blocker, relatedIssueId: child, type: "blocks" },
+    ]);
+
+    // The child no longer waits; the relation still waits for its own issues
+    const stillWaiting = await evalIn<string[][]>(
+      testDir,
+      `
+      import { getPendingOutboxItems, findUnresolvedTempIds } from "$src/utils/database.ts";
+      console.log(JSON.stringify(getPendingOutboxItems().map((i) => findUnresolvedTempIds(i.payload))));
+    `
+    );
+    expect(stillWaiting[1]).toEqual([]);
+    expect(stillWaiting[3].sort()).toEqual([blocker, child].sort());
+  });
+
+  test("should dead-letter outbox items with an unknown operation when syncing", async () => {
+    await lbQueued("outbox", "clear", "--force");
+    const db = new Database(join(testDir, ".lb", "cache.db"));
+    db.run("INSERT INTO outbox (operation, payload) VALUES ('archive', '{\"issueId\":\"ENG-1\"}')");
+    db.close();
+
+    const pushed = await evalIn<{ success: number; failed: number; dead: number }>(
+      testDir,
+      `
+      import { pushOutbox } from "$src/utils/sync.ts";
+      console.log(JSON.stringify(await pushOutbox("team-id")));
+    `
+    );
+    expect(pushed).toEqual({ success: 0, failed: 1, dead: 1 });
+
+    const list = await lbQueued("outbox", "list", "--json");
+    expect(list.stdout).toContain("Invalid outbox operation: archive");
+  });
+
+  test("should apply queued bulk updates and closes to the cache right away", async () => {
+    const a = await createQueued("Queued bulk A");
+    const b = await createQueued("Queued bulk B");
+
+    const updated = await lbQueued("update", a, b, "--priority", "urgent");
+    expect(updated.exitCode).toBe(0);
+    const closed = await lbQueued("close", b, a, "--wont-fix");
+    expect(closed.exitCode).toBe(0);
+
+    const db = new Database(join(testDir, ".lb", "cache.db"));
+    const rows = db
+      .query("SELECT id, priority, status FROM issues WHERE id IN (?, ?) ORDER BY id")
+      .all(a, b) as Array<{ id: string; priority: number; status: string }>;
+    db.close();
+    expect(rows).toEqual([
+      { id: a, priority: 0, status: "closed" },
+      { id: b, priority: 0, status: "closed" },
+    ]);
+
+    const queued = outboxPayloads("update").filter((p) => p.issueId === a || p.issueId === b);
+    expect(queued.length).toBe(2);
+    expect(outboxPayloads("close").filter((p) => p.issueId === a || p.issueId === b).length).toBe(
+      2
+    );
+  });
+});
+
+/**
+ * Stubbed Linear API tests
+ * Run lb's modules in an isolated directory with fetch replaced by a stub that
+ * answers the GraphQL requests, so code that talks to Linear runs offline
+ */
+describe("Stubbed Linear API", () => {
+  const testDir = "/tmp/lb-stubbed-test-" + Date.now();
+
+  // Helper to run a script with Linear credentials, against a stubbed fetch it installs itself
+  const evalStubbed = <T>(script: string) =>
+    evalIn<T>(testDir, script, { LINEAR_API_KEY: "lin_api_test" });
+
+  beforeAll(() => {
+    mkdirSync(join(testDir, ".lb"), { recursive: true });
+    mkdirSync(join(testDir, ".git"), { recursive: true }); // Fake git repo
+    writeFileSync(
+      join(testDir, ".lb", "config.jsonc"),
+      JSON.stringify({ team_key: "ENG", repo_name: "stubbed-test" })
+    );
+  });
+
+  afterAll(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should park conflicting queued updates and rebase later ones on our own edits", async () => {
+    const result = await evalStubbed<{
+      conflict: { conflict_at?: string; last_error?: string };
+      rebasedTitle: string;
+      rebasedPassed: boolean;
+    }>(`
+      import { cacheIssue, queueOutboxItem, getOutboxItem, rebaseQueuedUpdates } from "$src/utils/database.ts";
+      import { assertNoUpdateConflict } from "$src/utils/outbox-conflicts.ts";
+      import { recordOutboxFailure } from "$src/utils/outbox-retry.ts";
+
+      // The issue as Linear has it; fetchIssue gets it from the stub
+      const remote = {
+        id: "uuid-eng-5", identifier: "ENG-5", title: "Original", description: "PM edit",
+        priority: 3, createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-02T00:00:00.000Z",
+        state: { id: "state-1", name: "Todo", type: "unstarted" },
+        labels: { nodes: [] }, team: { key: "ENG" },
+        children: { nodes: [] }, relations: { nodes: [] }, inverseRelations: { nodes: [] },
+        comments: { nodes: [] },
+      };
+      globalThis.fetch = async () => Response.json({ data: { issue: remote } });
+
+      cacheIssue({
+        id: "ENG-5", title: "Original", description: "Old", status: "open", priority: 2,
+        created_at: "2026-01-01T00:00:00.000Z", updated_at: "2026-01-01T00:00:00.000Z", team: "ENG",
+      });
+      const described = getOutboxItem(queueOutboxItem("update", { issueId: "ENG-5", description: "Agent edit" }));
+      const renamed = getOutboxItem(queueOutboxItem("update", { issueId: "ENG-5", title: "Agent title" }));
+      const renamedAgain = queueOutboxItem("update", { issueId: "ENG-5", title: "Second title" });
+
+      // A PM changed the description in Linear after it was queued: parked
+      try {
+        await assertNoUpdateConflict(described.payload);
+      } catch (error) {
+        recordOutboxFailure(described, error);
+      }
+
+      // The title wasn't touched remotely; once our rename lands, the next rename builds on it
+      await assertNoUpdateConflict(renamed.payload);
+      rebaseQueuedUpdates(renamed.payload);
+      remote.title = "Agent title";
+      remote.updatedAt = "2026-01-03T00:00:00.000Z";
+      const next = getOutboxItem(renamedAgain);
+      let rebasedPassed = true;
+      try {
+        await assertNoUpdateConflict(next.payload);
+      } catch {
+        rebasedPassed = false;
+      }
+
+      console.log(JSON.stringify({
+        conflict: getOutboxItem(described.id),
+        rebasedTitle: next.payload.base.title,
+        rebasedPassed,
+      }));
+    `);
+
+    expect(result.conflict.conflict_at).toBeDefined();
+    expect(result.conflict.last_error).toContain("ENG-5 changed in Linear");
+    expect(result.conflict.last_error).toContain("description");
+    expect(result.rebasedTitle).toBe("Agent title");
+    expect(result.rebasedPassed).toBe(true);
+  });
+
+  test("should keep each team's labels apart when names match", async () => {
+    const result = await evalStubbed<{ a: string; b: string; cachedA: string; requests: number }>(`
+      import { findLabelId } from "$src/utils/linear.ts";
+
+      // Both teams have a "backend" label
+      const labels = {
+        "team-a": [{ id: "label-a", name: "Backend" }],
+        "team-b": [{ id: "label-b", name: "backend" }],
+      };
+      let requests = 0;
+      globalThis.fetch = async (_url, init) => {
+        requests++;
+        const { variables } = JSON.parse(init.body);
+        return Response.json({ data: { team: { labels: { nodes: labels[variables.teamId] } } } });
+      };
+
+      const a = await findLabelId("team-a", "backend");
+      const b = await findLabelId("team-b", "backend");
+      const cachedA = await findLabelId("team-a", "BACKEND");
+      console.log(JSON.stringify({ a, b, cachedA, requests }));
+    `);
+
+    expect(result.a).toBe("label-a");
+    // Team A's cached label must not be reused for team B
+    expect(result.b).toBe("label-b");
+    expect(result.cachedA).toBe("label-a");
+    expect(result.requests).toBe(2);
+  });
+});
+
+/**
+ * Webhook receiver tests
+ * Runs lb serve --webhooks in an isolated directory and POSTs signed payloads
+ * No Linear API calls are made (the cache counts as fresh while the server runs)
+ */
+describe("Webhook Receiver", () => {
+  const testDir = "/tmp/lb-webhook-test-" + Date.now();
+  const secret = "test-webhook-secret";
+  let server: ReturnType<typeof Bun.spawn> | null = null;
+  let serverUrl = "";
+
+  // Helper to run lb in the test directory without Linear credentials
+  const lbHook = (...args: string[]) => lbIn(testDir, args, { LINEAR_API_KEY: "" });
+
+  // POST a webhook payload, signed and timestamped like Linear does
+  async function deliver(payload: object, signWith: string = secret): Promise<Response> {
+    const body = JSON.stringify({ webhookTimestamp: Date.now(), ...payload });
+    const signature = createHmac("sha256", signWith).update(body).digest("hex");
+    return fetch(serverUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Linear-Signature": signature },
+      body,
+    });
+  }
+
+  function issueEvent(action: string, data: Record<string, unknown> = {}) {
+    return {
+      action,
+      type: "Issue",
+      data: {
+        id: "11111111-aaaa-4000-8000-000000000001",
+        identifier: "ENG-1",
+        title: "Webhook issue",
+        description: "Created in Linear",
+        priority: 2,
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        state: { id: "state-1", name: "Todo", type: "unstarted" },
+        labels: [
+          { id: "label-1", name: "repo:webhook-test" },
+          { id: "label-2", name: "backend" },
+        ],
+        team: { key: "ENG" },
+        ...data,
+      },
+    };
+  }
+
+  beforeAll(async () => {
+    mkdirSync(join(testDir, ".lb"), { recursive: true });
+    mkdirSync(join(testDir, ".git"), { recursive: true }); // Fake git repo
+    writeFileSync(
+      join(testDir, ".lb", "config.jsonc"),
+      JSON.stringify({ team_key: "ENG", repo_name: "webhook-test", webhook_secret: secret })
+    );
+
+    server = Bun.spawn(
+      ["bun", "run", import.meta.dir + "/../src/cli.ts", "serve", "--webhooks", "--port", "0"],
+      {
+        cwd: testDir,
+        env: { ...process.env, LINEAR_API_KEY: "" },
+        stdout: "pipe",
+        stderr: "pipe",
+      }
+    );
+
+    // Wait for the listening line to learn the port
+    const reader = (server.stdout as ReadableStream<Uint8Array>).getReader();
+    let started = "";
+    while (!started.includes("http://")) {
+      const { value, done } = await reader.read();
+      if (done) throw new Error(`lb serve exited: ${started}`);
+      started += new TextDecoder().decode(value);
+    }
+    reader.releaseLock();
+    serverUrl = started.match(/http:\/\/\S+/)![0];
+  });
+
+  afterAll(async () => {
+    if (server) {
+      server.kill();
+      await server.exited;
+    }
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should reject payloads with a bad signature", async () => {
+    const response = await deliver(issueEvent("create"), "wrong-secret");
+    expect(response.status).toBe(401);
+
+    const show = await lbHook("show", "ENG-1", "--json");
+    expect(show.exitCode).not.toBe(0);
+  });
+
+  test("should reject replayed payloads with a stale timestamp", async () => {
+    const replayed = await deliver({
+      ...issueEvent("create"),
+      webhookTimestamp: Date.now() - 5 * 60 * 1000,
+    });
+    expect(replayed.status).toBe(401);
+    const fromTheFuture = await deliver({
+      ...issueEvent("create"),
+      webhookTimestamp: Date.now() + 5 * 60 * 1000,
+    });
+    expect(fromTheFuture.status).toBe(401);
+
+    const show = await lbHook("show", "ENG-1", "--json");
+    expect(show.exitCode).not.toBe(0);
+  });
+
+  test("should answer signed payloads it can't apply with 422", async () => {
+    const response = await deliver(issueEvent("create", { labels: "repo:webhook-test" }));
+    expect(response.status).toBe(422);
+    const result = await response.json();
+    expect(result.applied).toBe(false);
+    expect(result.reason).toContain("malformed event");
+
+    const notAnEvent = await deliver([]);
+    expect(notAnEvent.status).toBe(422);
+
+    const show = await lbHook("show", "ENG-1", "--json");
+    expect(show.exitCode).not.toBe(0);
+  });
+
+  test("should cache issues from Issue events", async () => {
+    const response = await deliver(issueEvent("create"));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ applied: true, id: "ENG-1" });
+
+    const show = await lbHook("show", "ENG-1", "--json");
+    expect(show.exitCode).toBe(0);
+    const issue = JSON.parse(show.stdout)[0];
+    expect(issue.title).toBe("Webhook issue");
+    expect(issue.labels).toEqual(["backend"]);
+  });
+
+  test("should apply updates and ignore out-of-order deliveries", async () => {
+    await deliver(
+      issueEvent("update", {
+        title: "Renamed in Linear",
+        updatedAt: "2026-01-02T00:00:00.000Z",
+        state: { id: "state-2", name: "In Progress", type: "started" },
+      })
+    );
+    const stale = await deliver(issueEvent("update", { title: "Old title" }));
+    expect((await stale.json()).applied).toBe(false);
+
+    const issue = JSON.parse((await lbHook("show", "ENG-1", "--json")).stdout)[0];
+    expect(issue.title).toBe("Renamed in Linear");
+    expect(issue.status).toBe("in_progress");
+  });
+
+  test("should cache comments on known issues", async () => {
+    await deliver({
+      action: "create",
+      type: "Comment",
+      data: {
+        id: "comment-1",
+        body: "Posted from Linear",
+        issueId: "11111111-aaaa-4000-8000-000000000001",
+        createdAt: "2026-01-02T00:00:00.000Z",
+        updatedAt: "2026-01-02T00:00:00.000Z",
+      },
+    });
+
+    const comments = await lbHook("comment", "list", "ENG-1", "--json");
+    expect(JSON.parse(comments.stdout).map((c: { body: string }) => c.body)).toEqual([
+      "Posted from Linear",
+    ]);
+  });
+
+  test("should ignore issues outside the repo scope", async () => {
+    const response = await deliver(
+      issueEvent("create", {
+        id: "11111111-aaaa-4000-8000-000000000002",
+        identifier: "ENG-2",
+        labels: [{ id: "label-3", name: "repo:other" }],
+      })
+    );
+    expect((await response.json()).applied).toBe(false);
+  });
+
+  test("should remove issues on remove events", async () => {
+    await deliver(issueEvent("remove", { updatedAt: "2026-01-03T00:00:00.000Z" }));
+
+    const show = await lbHook("show", "ENG-1", "--json");
+    expect(show.exitCode).not.toBe(0);
   });
 });